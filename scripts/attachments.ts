@@ -0,0 +1,70 @@
+/**
+ * Attachment Rules
+ *
+ * File types and limits Xero enforces on attachments, checked locally so an
+ * upload fails fast with a clear message instead of a rejected request.
+ */
+
+import { extname } from "path";
+import type { AttachmentEntity } from "./types.js";
+
+/** Xero rejects files larger than 25 MB */
+export const MAX_ATTACHMENT_BYTES = 25 * 1024 * 1024;
+
+/** Attachments allowed on a single document */
+export const MAX_ATTACHMENTS_PER_DOCUMENT = 10;
+
+// API collection for each attachable entity (bills are ACCPAY invoices)
+export const ATTACHMENT_ENDPOINTS: Record<AttachmentEntity, string> = {
+  invoice: "Invoices",
+  bill: "Invoices",
+  creditnote: "CreditNotes",
+  banktransaction: "BankTransactions",
+  contact: "Contacts",
+  manualjournal: "ManualJournals",
+};
+
+// Extensions Xero accepts, with the Content-Type to upload them as
+const MIME_TYPES: Record<string, string> = {
+  ".bmp": "image/bmp",
+  ".csv": "text/csv",
+  ".doc": "application/msword",
+  ".docx": "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  ".eml": "message/rfc822",
+  ".gif": "image/gif",
+  ".jpeg": "image/jpeg",
+  ".jpg": "image/jpeg",
+  ".key": "application/vnd.apple.keynote",
+  ".msg": "application/vnd.ms-outlook",
+  ".numbers": "application/vnd.apple.numbers",
+  ".odp": "application/vnd.oasis.opendocument.presentation",
+  ".ods": "application/vnd.oasis.opendocument.spreadsheet",
+  ".odt": "application/vnd.oasis.opendocument.text",
+  ".pages": "application/vnd.apple.pages",
+  ".pdf": "application/pdf",
+  ".png": "image/png",
+  ".ppt": "application/vnd.ms-powerpoint",
+  ".pptx": "application/vnd.openxmlformats-officedocument.presentationml.presentation",
+  ".rtf": "application/rtf",
+  ".tif": "image/tiff",
+  ".tiff": "image/tiff",
+  ".txt": "text/plain",
+  ".xls": "application/vnd.ms-excel",
+  ".xlsx": "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  ".xml": "application/xml",
+  ".zip": "application/zip",
+};
+
+/**
+ * Content-Type for an attachment file name, or null if Xero doesn't accept the type
+ */
+export function attachmentMimeType(fileName: string): string | null {
+  return MIME_TYPES[extname(fileName).toLowerCase()] ?? null;
+}
+
+/**
+ * Whether Xero accepts uploads of this Content-Type
+ */
+export function isAllowedMimeType(mimeType: string): boolean {
+  return Object.values(MIME_TYPES).includes(mimeType.toLowerCase());
+}
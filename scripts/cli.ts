@@ -5,8 +5,355 @@
  * Zod-validated CLI for Xero Accounting API operations.
  */
 
-import { z, createCommand, runCli, cacheCommands, cliTypes } from "@local/cli-utils";
+import { readFileSync, writeFileSync } from "fs";
+import { basename, resolve } from "path";
+import { z, createCommand as baseCreateCommand, runCli, cacheCommands, cliTypes } from "@local/cli-utils";
 import { XeroClient } from "./xero-client.js";
+import { XeroApiError, XeroPreflightError } from "./errors.js";
+import { loadLineItems, parseLineSpec } from "./line-items.js";
+import { groupInvoiceRows } from "./invoice-import.js";
+import { renderStatementCsv, renderStatementHtml } from "./statement.js";
+import { loadContactJson, parseAddressSpec, parsePaymentTerm } from "./contact-input.js";
+import { parseCsv, toCsv } from "./csv.js";
+import { formatOutput, formatTenantResults } from "./formatters.js";
+import type {
+  AttachmentEntity,
+  DueDateType,
+  HistoryEntity,
+  InvoiceCancellationPlan,
+  InvoiceUpdateStatus,
+  LineItemInput,
+  OutputFormat,
+  PdfDocumentType,
+  Phone,
+  ScheduleUnit,
+  SyncEntity,
+  UpdateContactOptions,
+} from "./types.js";
+
+type CommandHandler = (args: unknown, client: XeroClient) => Promise<unknown>;
+
+interface CommandOptions {
+  /** Accept --all-tenants / --tenants and run once per organisation */
+  fanOut?: boolean;
+  /** Sends writes: report which organisation was changed */
+  write?: boolean;
+  /** Dry runs return the command's result alongside the planned requests */
+  dryRunResult?: boolean;
+}
+
+const globalOptions = {
+  tenant: z.string().optional().describe("Organisation name, configured alias or tenant ID"),
+  dryRun: cliTypes.bool().optional().describe("Show the requests a write would send without sending them"),
+  idempotencyKey: z.string().max(128).optional().describe("Idempotency-Key for writes (default: derived from payload for creates)"),
+  format: z.enum(["json", "table", "csv", "ndjson"]).optional().describe("Output format (default: json)"),
+  fields: z.string().optional().describe("Comma-separated fields to output, e.g. InvoiceNumber,Contact.Name,AmountDue"),
+};
+
+const attachmentEntity = z.enum(["invoice", "bill", "creditnote", "banktransaction", "contact", "manualjournal"])
+  .describe("Record type: invoice, bill, creditnote, banktransaction, contact or manualjournal");
+
+const historyEntity = z.enum(["invoice", "contact", "creditnote", "payment", "banktransaction", "quote", "repeatinginvoice"])
+  .describe("Record type: invoice, contact, creditnote, payment, banktransaction, quote or repeatinginvoice");
+
+const writeOptions = {
+  note: z.string().optional().describe("Reason for the change, added as a history note to each record written"),
+};
+
+const fanOutOptions = {
+  allTenants: cliTypes.bool().optional().describe("Run against every connected organisation"),
+  tenants: z.string().optional().describe("Comma-separated tenant IDs or names to run against"),
+};
+
+/**
+ * Print text output (table, CSV, HTML) as-is. runCli JSON-encodes whatever
+ * a command returns, so text returned as the result would come out as one
+ * quoted string; the command returns nothing for runCli to print instead.
+ */
+function printText(text: string): undefined {
+  process.stdout.write(text.endsWith("\n") ? text : `${text}\n`);
+  return undefined;
+}
+
+/**
+ * Text a command renders itself (e.g. a statement as CSV or HTML), returned
+ * for the command wrapper to print
+ */
+class TextOutput {
+  constructor(readonly text: string) {}
+}
+
+/**
+ * createCommand with the options and handling shared by every Xero command:
+ *
+ * - `--dry-run`: writes are captured instead of sent; the planned requests
+ *   (method, endpoint, payload) and side effects are returned instead
+ * - `--tenant`: organisation name, configured alias or tenant ID
+ * - `--idempotency-key`: explicit Idempotency-Key for the command's writes
+ * - `--format` / `--fields`: table, CSV or NDJSON output and field projection,
+ *   with Xero `/Date(...)/` values converted to ISO
+ * - `--all-tenants` / `--tenants` (fanOut commands): results keyed by
+ *   organisation name (table/CSV/NDJSON rows get an Organisation column);
+ *   one organisation failing doesn't lose the others
+ * - write commands name the organisation they changed on stderr, and with
+ *   `--note` leave that reason in the history of every record they write
+ * - Xero API failures are returned as a structured error object and set a
+ *   per-class exit code (2 validation, 3 auth, 4 not found, 5 rate limit,
+ *   6 organisation offline)
+ */
+function createCommand(
+  schema: z.ZodObject<z.ZodRawShape>,
+  handler: CommandHandler,
+  description: string,
+  options: CommandOptions = {}
+) {
+  return baseCreateCommand(
+    schema.extend({
+      ...globalOptions,
+      ...(options.fanOut ? fanOutOptions : {}),
+      ...(options.write ? writeOptions : {}),
+    }),
+    async (rawArgs: unknown, client: XeroClient) => {
+      const { tenant, dryRun, idempotencyKey, format, fields, allTenants, tenants, note } = rawArgs as {
+        tenant?: string; dryRun?: boolean; idempotencyKey?: string; format?: OutputFormat;
+        fields?: string; allTenants?: boolean; tenants?: string; note?: string;
+      };
+      client.setDryRun(!!dryRun);
+      client.setIdempotencyKey(idempotencyKey);
+      client.setWriteNote(note);
+
+      try {
+        // --tenant resolves a name/alias into the tenantId every command accepts
+        const args = tenant
+          ? { ...(rawArgs as object), tenantId: (await client.resolveTenant(tenant)).tenantId }
+          : rawArgs;
+
+        if (allTenants || tenants) {
+          const results = await client.forEachTenant(
+            (tenantId) => handler({ ...(args as object), tenantId }, client),
+            { tenants: tenants?.split(",").map((t) => t.trim()).filter(Boolean) }
+          );
+          if (Object.values(results).some((r) => !r.ok)) {
+            process.exitCode = 1;
+          }
+          // Planned requests carry their tenantId, so one plan covers every organisation
+          const planned = client.getDryRunResult();
+          if (dryRun && planned.requests.length > 0) {
+            return options.dryRunResult ? { ...planned, result: results } : planned;
+          }
+          if (format && format !== "json") {
+            // Text formats only have rows for the organisations that succeeded
+            for (const [organisation, r] of Object.entries(results)) {
+              if (!r.ok) {
+                console.error(`Error: ${organisation} - ${r.error.message}`);
+              }
+            }
+          }
+          if (format || fields) {
+            const formatted = formatTenantResults(results, {
+              format: format || "json",
+              fields: fields?.split(",").map((f) => f.trim()).filter(Boolean),
+            });
+            return typeof formatted === "string" ? printText(formatted) : formatted;
+          }
+          return results;
+        }
+
+        const result = await handler(args, client);
+        const planned = client.getDryRunResult();
+        if (dryRun && planned.requests.length > 0) {
+          return options.dryRunResult ? { ...planned, result } : planned;
+        }
+
+        if (options.write) {
+          // stderr keeps stdout as the command's JSON result
+          for (const written of await client.getWrittenTenants()) {
+            console.error(`Organisation: ${written.tenantName} (${written.tenantId})`);
+          }
+          for (const failure of client.getNoteFailures()) {
+            console.error(`Warning: change saved but history note not added - ${failure}`);
+          }
+          for (const replayed of client.getReplayedWrites()) {
+            console.error(`Warning: not sent again - ${replayed}; pass a new --idempotency-key to send it anyway`);
+          }
+        }
+
+        if (result instanceof TextOutput) {
+          return printText(result.text);
+        }
+        if (format || fields) {
+          const formatted = formatOutput(result, {
+            format: format || "json",
+            fields: fields?.split(",").map((f) => f.trim()).filter(Boolean),
+          });
+          return typeof formatted === "string" ? printText(formatted) : formatted;
+        }
+        return result;
+      } catch (error) {
+        if (error instanceof XeroApiError || error instanceof XeroPreflightError) {
+          process.exitCode = error.exitCode;
+          return error.toJSON();
+        }
+        throw error;
+      }
+    },
+    description
+  );
+}
+
+// create-contact / update-contact fields besides the name
+const contactFieldOptions = {
+  fromJson: z.string().optional().describe("JSON file in Xero's Contact shape (e.g. saved from get-contact); flags override it"),
+  email: z.string().optional().describe("Email address"),
+  firstName: z.string().optional().describe("First name"),
+  lastName: z.string().optional().describe("Last name"),
+  phone: z.string().optional().describe("Phone number"),
+  mobile: z.string().optional().describe("Mobile number"),
+  fax: z.string().optional().describe("Fax number"),
+  contactNumber: z.string().optional().describe("Contact number (your own reference)"),
+  accountNumber: z.string().optional().describe("Account number"),
+  taxNumber: z.string().optional().describe("Tax number (ABN, GST, VAT or EIN)"),
+  bankAccount: z.string().optional().describe("Bank account number payments to the contact go to"),
+  website: z.string().optional().describe("Website"),
+  currency: z.string().regex(/^[A-Za-z]{3}$/).optional().describe("Default currency, e.g. USD"),
+  streetAddress: z.string().optional()
+    .describe("Street address as key=value pairs: line1=..;line2=..;city=..;region=..;postalCode=..;country=..;attention=.."),
+  postalAddress: z.string().optional().describe("Postal (PO box) address, same format as --street-address"),
+  billTerms: z.string().optional()
+    .describe("Bill payment terms: <day> (days after bill date) or <day>:DAYSAFTERBILLDATE|DAYSAFTERBILLMONTH|OFCURRENTMONTH|OFFOLLOWINGMONTH"),
+  salesTerms: z.string().optional().describe("Sales payment terms, same format as --bill-terms"),
+  salesAccountCode: z.string().optional().describe("Default account code for sales"),
+  purchasesAccountCode: z.string().optional().describe("Default account code for purchases"),
+  salesTaxType: z.string().optional().describe("Default tax type for sales (AccountsReceivableTaxType)"),
+  purchasesTaxType: z.string().optional().describe("Default tax type for purchases (AccountsPayableTaxType)"),
+  discount: cliTypes.float(0).optional().describe("Default sales discount (percent)"),
+};
+
+type ContactArgs = {
+  name?: string; fromJson?: string; email?: string; firstName?: string; lastName?: string; phone?: string;
+  mobile?: string; fax?: string; contactNumber?: string; accountNumber?: string; taxNumber?: string;
+  bankAccount?: string; website?: string; currency?: string; streetAddress?: string; postalAddress?: string;
+  billTerms?: string; salesTerms?: string; salesAccountCode?: string; purchasesAccountCode?: string;
+  salesTaxType?: string; purchasesTaxType?: string; discount?: number;
+};
+
+/**
+ * Contact options from --from-json overlaid with the structured flags.
+ * Addresses, phones and payment terms are merged by type.
+ */
+function contactOptionsFromArgs(args: ContactArgs): UpdateContactOptions {
+  const base = args.fromJson ? loadContactJson(args.fromJson) : {};
+  const flags: UpdateContactOptions = {
+    name: args.name,
+    email: args.email,
+    firstName: args.firstName,
+    lastName: args.lastName,
+    phone: args.phone,
+    contactNumber: args.contactNumber,
+    accountNumber: args.accountNumber,
+    taxNumber: args.taxNumber,
+    bankAccountDetails: args.bankAccount,
+    website: args.website,
+    defaultCurrency: args.currency?.toUpperCase(),
+    salesDefaultAccountCode: args.salesAccountCode,
+    purchasesDefaultAccountCode: args.purchasesAccountCode,
+    accountsReceivableTaxType: args.salesTaxType,
+    accountsPayableTaxType: args.purchasesTaxType,
+    discount: args.discount,
+  };
+  const options: UpdateContactOptions = { ...base };
+  for (const [key, value] of Object.entries(flags)) {
+    if (value !== undefined) {
+      (options as Record<string, unknown>)[key] = value;
+    }
+  }
+
+  const addresses = [
+    ...(args.streetAddress ? [parseAddressSpec(args.streetAddress, "STREET", "--street-address")] : []),
+    ...(args.postalAddress ? [parseAddressSpec(args.postalAddress, "POBOX", "--postal-address")] : []),
+  ];
+  if (addresses.length > 0) {
+    const types = new Set(addresses.map((a) => a.AddressType));
+    options.addresses = [...(options.addresses || []).filter((a) => !types.has(a.AddressType)), ...addresses];
+  }
+
+  const phones: Phone[] = [
+    ...(args.mobile ? [{ PhoneType: "MOBILE" as const, PhoneNumber: args.mobile }] : []),
+    ...(args.fax ? [{ PhoneType: "FAX" as const, PhoneNumber: args.fax }] : []),
+  ];
+  if (phones.length > 0) {
+    const types = new Set(phones.map((p) => p.PhoneType));
+    options.phones = [...(options.phones || []).filter((p) => !types.has(p.PhoneType)), ...phones];
+  }
+
+  if (args.billTerms || args.salesTerms) {
+    options.paymentTerms = {
+      ...options.paymentTerms,
+      ...(args.billTerms ? { Bills: parsePaymentTerm(args.billTerms, "--bill-terms") } : {}),
+      ...(args.salesTerms ? { Sales: parsePaymentTerm(args.salesTerms, "--sales-terms") } : {}),
+    };
+  }
+  return options;
+}
+
+/**
+ * Line items from --lines / --line, or a single line from --amount.
+ * --account-code fills in lines that have neither an account nor item code.
+ */
+function collectLineItems(args: {
+  amount?: number; description?: string; quantity?: number; accountCode?: string;
+  lines?: string; line?: string | string[];
+}): LineItemInput[] {
+  const { amount, description, quantity, accountCode, lines, line } = args;
+  const specs = line === undefined ? [] : [line].flat();
+  const lineItems: LineItemInput[] = [
+    ...(lines ? loadLineItems(lines) : []),
+    ...specs.map((spec, i) => parseLineSpec(spec, `--line ${i + 1}`)),
+  ];
+  if (lineItems.length === 0) {
+    if (amount === undefined) {
+      throw new Error("Pass --amount for a single line, or --lines <file> / --line for multiple lines");
+    }
+    return [{
+      description: description || "Invoice item",
+      quantity: quantity || 1,
+      unitAmount: amount,
+      accountCode,
+    }];
+  }
+  if (amount !== undefined) {
+    throw new Error("--amount can't be combined with --lines or --line");
+  }
+  return accountCode
+    ? lineItems.map((item) => (item.accountCode || item.itemCode ? item : { ...item, accountCode }))
+    : lineItems;
+}
+
+/**
+ * Preview for void-invoice / delete-invoice without --confirm
+ */
+function describeCancellation(plan: InvoiceCancellationPlan) {
+  const { action, invoice, blockers } = plan;
+  const label = invoice.InvoiceNumber || invoice.InvoiceID;
+  return {
+    confirmed: false,
+    canProceed: blockers.length === 0,
+    message: blockers.length === 0
+      ? `Invoice ${label} can be ${action === "void" ? "voided" : "deleted"}. Re-run with --confirm to do it.`
+      : `Invoice ${label} can't be ${action === "void" ? "voided" : "deleted"} yet; reverse the items in blockers first.`,
+    blockers,
+    invoice: {
+      InvoiceID: invoice.InvoiceID,
+      InvoiceNumber: invoice.InvoiceNumber,
+      Type: invoice.Type,
+      Status: invoice.Status,
+      Contact: invoice.Contact?.Name,
+      Total: invoice.Total,
+      AmountPaid: invoice.AmountPaid,
+      AmountCredited: invoice.AmountCredited,
+    },
+  };
+}
 
 // Define commands with Zod schemas
 const commands = {
@@ -23,21 +370,39 @@ const commands = {
     "Get connected Xero organisations (discover tenant IDs)"
   ),
 
+  "use-tenant": createCommand(
+    z.object({}),
+    async (args, client: XeroClient) => {
+      // --tenant is the global option; the wrapper has already validated it
+      const { tenant } = args as { tenant?: string };
+      if (!tenant) {
+        return { defaultTenant: await client.getDefaultTenant(), connections: await client.getConnections() };
+      }
+      return { defaultTenant: await client.useTenant(tenant) };
+    },
+    "Set the default organisation (--tenant <name|alias|id>); without --tenant, show it"
+  ),
+
   // ==================== Invoices ====================
   "list-invoices": createCommand(
     z.object({
-      page: cliTypes.int(1).optional().describe("Page number"),
+      page: cliTypes.int(1).optional().describe("Page number (start page with --all/--limit)"),
+      all: cliTypes.bool().optional().describe("Fetch every page"),
+      limit: cliTypes.int(1).optional().describe("Maximum records to return (walks pages)"),
       where: z.string().optional().describe("Xero filter expression"),
       order: z.string().optional().describe("Sort order field"),
+      modifiedSince: z.string().optional().describe("Only records modified since (ISO timestamp)"),
       tenantId: z.string().optional().describe("Xero tenant ID"),
     }),
     async (args, client: XeroClient) => {
-      const { page, where, order, tenantId } = args as {
-        page?: number; where?: string; order?: string; tenantId?: string;
+      const { page, all, limit, where, order, modifiedSince, tenantId } = args as {
+        page?: number; all?: boolean; limit?: number; where?: string; order?: string;
+        modifiedSince?: string; tenantId?: string;
       };
-      return client.listInvoices({ page, where, order, tenantId });
+      return client.listInvoices({ page, all, limit, where, order, modifiedSince, tenantId });
     },
-    "List invoices"
+    "List invoices",
+    { fanOut: true }
   ),
 
   "get-invoice": createCommand(
@@ -54,71 +419,481 @@ const commands = {
 
   "create-invoice": createCommand(
     z.object({
-      contact: z.string().min(1).describe("Contact name"),
-      amount: cliTypes.float(0).describe("Line item amount"),
+      contact: z.string().min(1).describe("Contact ID, contact number, email or name"),
+      createContactIfMissing: cliTypes.bool().optional().describe("Create the contact if nothing matches"),
+      amount: cliTypes.float(0).optional().describe("Line item amount (single-line invoice)"),
       description: z.string().optional().describe("Line item description"),
       quantity: cliTypes.float(0.01).optional().describe("Line item quantity"),
-      accountCode: z.string().optional().describe("Account code"),
+      accountCode: z.string().optional().describe("Account code (default for lines without one)"),
+      lines: z.string().optional().describe("JSON or CSV file of line items"),
+      line: z.union([z.string(), z.array(z.string())]).optional()
+        .describe("Line item as key=value pairs, repeatable: description=..;quantity=..;unitAmount=..;taxType=.."),
       type: z.enum(["ACCREC", "ACCPAY"]).optional().describe("Invoice type"),
+      date: z.string().optional().describe("Invoice date (YYYY-MM-DD, default today)"),
       dueDate: z.string().optional().describe("Due date (YYYY-MM-DD)"),
       reference: z.string().optional().describe("Reference number"),
+      lineAmountTypes: z.enum(["Exclusive", "Inclusive", "NoTax"]).optional()
+        .describe("Whether unit amounts include tax (default Exclusive)"),
+      currencyCode: z.string().regex(/^[A-Za-z]{3}$/).optional().describe("Currency code, e.g. USD (default: base currency)"),
+      brandingThemeId: z.string().optional().describe("Branding theme ID"),
+      status: z.enum(["DRAFT", "SUBMITTED", "AUTHORISED"]).optional().describe("Invoice status (default DRAFT)"),
       tenantId: z.string().optional().describe("Xero tenant ID"),
     }),
     async (args, client: XeroClient) => {
-      const { contact, amount, description, quantity, accountCode, type, dueDate, reference, tenantId } = args as {
-        contact: string; amount: number; description?: string; quantity?: number;
-        accountCode?: string; type?: "ACCREC" | "ACCPAY"; dueDate?: string;
-        reference?: string; tenantId?: string;
+      const {
+        contact, createContactIfMissing, amount, description, quantity, accountCode, lines, line, type, date,
+        dueDate, reference, lineAmountTypes, currencyCode, brandingThemeId, status, tenantId,
+      } = args as {
+        contact: string; createContactIfMissing?: boolean; amount?: number; description?: string; quantity?: number;
+        accountCode?: string; lines?: string; line?: string | string[];
+        type?: "ACCREC" | "ACCPAY"; date?: string; dueDate?: string; reference?: string;
+        lineAmountTypes?: "Exclusive" | "Inclusive" | "NoTax"; currencyCode?: string;
+        brandingThemeId?: string; status?: "DRAFT" | "SUBMITTED" | "AUTHORISED"; tenantId?: string;
       };
+
+      const lineItems = collectLineItems({ amount, description, quantity, accountCode, lines, line });
+
       return client.createInvoice({
         contactName: contact,
-        lineItems: [{
-          description: description || "Invoice item",
-          quantity: quantity || 1,
-          unitAmount: amount,
-          accountCode,
-        }],
+        createContactIfMissing,
+        lineItems,
         type,
+        date,
         dueDate,
         reference,
+        lineAmountTypes,
+        currencyCode: currencyCode?.toUpperCase(),
+        brandingThemeId,
+        status,
         tenantId,
       });
     },
-    "Create a new invoice"
+    "Create a new invoice",
+    { write: true }
   ),
 
   "update-invoice": createCommand(
     z.object({
       id: z.string().min(1).describe("Invoice ID (UUID)"),
-      status: z.string().optional().describe("Invoice status"),
+      status: z.enum(["DRAFT", "SUBMITTED", "AUTHORISED"]).optional()
+        .describe("Invoice status (use void-invoice / delete-invoice to cancel)"),
       reference: z.string().optional().describe("Reference number"),
       dueDate: z.string().optional().describe("Due date (YYYY-MM-DD)"),
       tenantId: z.string().optional().describe("Xero tenant ID"),
     }),
     async (args, client: XeroClient) => {
       const { id, status, reference, dueDate, tenantId } = args as {
-        id: string; status?: string; reference?: string; dueDate?: string; tenantId?: string;
+        id: string; status?: InvoiceUpdateStatus; reference?: string; dueDate?: string; tenantId?: string;
       };
       return client.updateInvoice(id, { status, reference, dueDate, tenantId });
     },
-    "Update an existing invoice"
+    "Update an existing invoice",
+    { write: true }
+  ),
+
+  "import-invoices": createCommand(
+    z.object({
+      file: z.string().min(1).describe("CSV file: one line item per row, rows grouped into invoices by InvoiceNumber"),
+      failedOut: z.string().optional().describe("Write the rows that weren't imported, with an Error column, to this CSV"),
+      tenantId: z.string().optional().describe("Xero tenant ID"),
+    }),
+    async (args, client: XeroClient) => {
+      const { file, failedOut, tenantId } = args as { file: string; failedOut?: string; tenantId?: string };
+      const rows = parseCsv(readFileSync(file, "utf-8"));
+      if (rows.length === 0) {
+        throw new Error(`${file}: no rows found`);
+      }
+
+      const { invoices, failures } = groupInvoiceRows(rows);
+      const result = await client.importInvoices(invoices, { tenantId });
+      // Invoices rejected while grouping count once each (rows without a number count alone)
+      const rejected = new Set(failures.map((f) => f.invoiceNumber ?? `row ${f.row}`)).size;
+      const report = {
+        summary: {
+          ...result.summary,
+          invoices: result.summary.invoices + rejected,
+          failed: result.summary.failed + rejected,
+        },
+        rows: [...failures, ...result.rows].sort((a, b) => a.row - b.row),
+      };
+
+      const failed = report.rows.filter((r) => r.status === "failed");
+      if (failed.length === 0) {
+        return report;
+      }
+      process.exitCode = 1;
+      if (!failedOut) {
+        return report;
+      }
+      // Same columns as the input, so the file can be fixed and imported again
+      const path = resolve(failedOut);
+      const failedRows = failed.map((r) => ({ ...rows[r.row - 1], Error: r.errors?.join("; ") }));
+      writeFileSync(path, toCsv(failedRows, [...Object.keys(rows[0]), "Error"]) + "\n");
+      return { ...report, failedOut: path };
+    },
+    "Create invoices in bulk from a CSV file",
+    { write: true, dryRunResult: true }
+  ),
+
+  "void-invoice": createCommand(
+    z.object({
+      id: z.string().min(1).describe("Invoice ID (UUID) or invoice number"),
+      confirm: cliTypes.bool().optional().describe("Required to void; without it the checks are only reported"),
+      tenantId: z.string().optional().describe("Xero tenant ID"),
+    }),
+    async (args, client: XeroClient) => {
+      const { id, confirm, tenantId } = args as { id: string; confirm?: boolean; tenantId?: string };
+      if (!confirm) {
+        return describeCancellation(await client.planInvoiceCancellation(id, "void", tenantId));
+      }
+      return client.voidInvoice(id, tenantId);
+    },
+    "Void an approved invoice after checking payments and allocations",
+    { write: true }
+  ),
+
+  "delete-invoice": createCommand(
+    z.object({
+      id: z.string().min(1).describe("Invoice ID (UUID) or invoice number"),
+      confirm: cliTypes.bool().optional().describe("Required to delete; without it the checks are only reported"),
+      tenantId: z.string().optional().describe("Xero tenant ID"),
+    }),
+    async (args, client: XeroClient) => {
+      const { id, confirm, tenantId } = args as { id: string; confirm?: boolean; tenantId?: string };
+      if (!confirm) {
+        return describeCancellation(await client.planInvoiceCancellation(id, "delete", tenantId));
+      }
+      return client.deleteInvoice(id, tenantId);
+    },
+    "Delete a draft or submitted invoice",
+    { write: true }
+  ),
+
+  "email-invoice": createCommand(
+    z.object({
+      id: z.string().optional().describe("Invoice ID (UUID) or invoice number"),
+      unsent: cliTypes.bool().optional().describe("Send every AUTHORISED sales invoice not yet sent"),
+      confirm: cliTypes.bool().optional().describe("Required with --unsent; without it the invoices are only listed"),
+      tenantId: z.string().optional().describe("Xero tenant ID"),
+    }),
+    async (args, client: XeroClient) => {
+      const { id, unsent, confirm, tenantId } = args as {
+        id?: string; unsent?: boolean; confirm?: boolean; tenantId?: string;
+      };
+      if (!id === !unsent) {
+        throw new Error("Pass either --id <invoice> or --unsent");
+      }
+      if (id) {
+        return client.emailInvoice(id, tenantId);
+      }
+
+      const invoices = await client.listUnsentInvoices(tenantId);
+      if (!confirm) {
+        return {
+          confirmed: false,
+          message: `${invoices.length} invoice(s) would be emailed. Re-run with --confirm to send them.`,
+          invoices: invoices.map((inv) => ({
+            InvoiceID: inv.InvoiceID,
+            InvoiceNumber: inv.InvoiceNumber,
+            Contact: inv.Contact?.Name,
+            Total: inv.Total,
+            AmountDue: inv.AmountDue,
+          })),
+        };
+      }
+
+      // Keep going past individual failures and report each one
+      const results = [];
+      for (const invoice of invoices) {
+        try {
+          results.push(await client.emailInvoice(invoice.InvoiceID, tenantId));
+        } catch (error) {
+          results.push({
+            InvoiceID: invoice.InvoiceID,
+            InvoiceNumber: invoice.InvoiceNumber,
+            SentToContact: false,
+            error: error instanceof Error ? error.message : String(error),
+          });
+        }
+      }
+      const failed = results.filter((r) => "error" in r).length;
+      if (failed > 0) {
+        process.exitCode = 1;
+      }
+      return { confirmed: true, sent: results.length - failed, failed, results };
+    },
+    "Email an approved invoice (or every unsent one) to its contact",
+    { write: true }
+  ),
+
+  "get-online-invoice-url": createCommand(
+    z.object({
+      id: z.string().min(1).describe("Invoice ID (UUID)"),
+      tenantId: z.string().optional().describe("Xero tenant ID"),
+    }),
+    async (args, client: XeroClient) => {
+      const { id, tenantId } = args as { id: string; tenantId?: string };
+      return { InvoiceID: id, OnlineInvoiceUrl: await client.getOnlineInvoiceUrl(id, tenantId) };
+    },
+    "Get the customer-facing online invoice link"
+  ),
+
+  "download-pdf": createCommand(
+    z.object({
+      type: z.enum(["invoice", "quote", "creditnote", "purchaseorder"]).optional().describe("Document type (default invoice)"),
+      id: z.string().min(1).describe("Document ID (UUID) or number, e.g. INV-0042"),
+      out: z.string().optional().describe("Output file (default: <id>.pdf in the current directory)"),
+      tenantId: z.string().optional().describe("Xero tenant ID"),
+    }),
+    async (args, client: XeroClient) => {
+      const { type = "invoice", id, out, tenantId } = args as {
+        type?: PdfDocumentType; id: string; out?: string; tenantId?: string;
+      };
+      const pdf = await client.getPdf(type, id, tenantId);
+      const path = resolve(out || `${id.replace(/[^\w.-]+/g, "_")}.pdf`);
+      writeFileSync(path, pdf);
+      return { type, id, path, bytes: pdf.length };
+    },
+    "Download an invoice, quote, credit note or purchase order as PDF"
+  ),
+
+  // ==================== Repeating Invoices ====================
+  "list-repeating-invoices": createCommand(
+    z.object({
+      where: z.string().optional().describe("Xero filter expression"),
+      order: z.string().optional().describe("Sort order field"),
+      tenantId: z.string().optional().describe("Xero tenant ID"),
+    }),
+    async (args, client: XeroClient) => {
+      const { where, order, tenantId } = args as { where?: string; order?: string; tenantId?: string };
+      return client.listRepeatingInvoices({ where, order, tenantId });
+    },
+    "List repeating invoice templates",
+    { fanOut: true }
+  ),
+
+  "get-repeating-invoice": createCommand(
+    z.object({
+      id: z.string().min(1).describe("Repeating invoice ID (UUID)"),
+      tenantId: z.string().optional().describe("Xero tenant ID"),
+    }),
+    async (args, client: XeroClient) => {
+      const { id, tenantId } = args as { id: string; tenantId?: string };
+      return client.getRepeatingInvoice(id, tenantId);
+    },
+    "Get a repeating invoice template"
+  ),
+
+  "create-repeating-invoice": createCommand(
+    z.object({
+      contact: z.string().min(1).describe("Contact ID, contact number, email or name (must exist)"),
+      amount: cliTypes.float(0).optional().describe("Line item amount (single-line template)"),
+      description: z.string().optional().describe("Line item description"),
+      quantity: cliTypes.float(0.01).optional().describe("Line item quantity"),
+      accountCode: z.string().optional().describe("Account code (default for lines without one)"),
+      lines: z.string().optional().describe("JSON or CSV file of line items"),
+      line: z.union([z.string(), z.array(z.string())]).optional()
+        .describe("Line item as key=value pairs, repeatable: description=..;quantity=..;unitAmount=..;taxType=.."),
+      unit: z.enum(["WEEKLY", "MONTHLY"]).describe("Schedule unit"),
+      period: cliTypes.int(1).optional().describe("Units between invoices (default 1; 3 + MONTHLY = quarterly)"),
+      startDate: z.string().describe("First invoice date (YYYY-MM-DD)"),
+      nextScheduledDate: z.string().optional().describe("Next invoice date (YYYY-MM-DD, default start date)"),
+      endDate: z.string().optional().describe("Last date to generate invoices (YYYY-MM-DD)"),
+      dueDate: cliTypes.int(0).optional().describe("Due date value: days, or day of month (see --due-date-type)"),
+      dueDateType: z.enum(["DAYSAFTERBILLDATE", "DAYSAFTERBILLMONTH", "OFCURRENTMONTH", "OFFOLLOWINGMONTH"]).optional()
+        .describe("How --due-date is applied"),
+      type: z.enum(["ACCREC", "ACCPAY"]).optional().describe("Invoice type"),
+      reference: z.string().optional().describe("Reference for generated invoices"),
+      lineAmountTypes: z.enum(["Exclusive", "Inclusive", "NoTax"]).optional()
+        .describe("Whether unit amounts include tax (default Exclusive)"),
+      currencyCode: z.string().regex(/^[A-Za-z]{3}$/).optional().describe("Currency code, e.g. USD (default: base currency)"),
+      brandingThemeId: z.string().optional().describe("Branding theme ID"),
+      status: z.enum(["DRAFT", "AUTHORISED"]).optional()
+        .describe("DRAFT (default) generates draft invoices; AUTHORISED generates approved ones"),
+      tenantId: z.string().optional().describe("Xero tenant ID"),
+    }),
+    async (args, client: XeroClient) => {
+      const {
+        contact, amount, description, quantity, accountCode, lines, line, unit, period, startDate,
+        nextScheduledDate, endDate, dueDate, dueDateType, type, reference, lineAmountTypes, currencyCode,
+        brandingThemeId, status, tenantId,
+      } = args as {
+        contact: string; amount?: number; description?: string; quantity?: number; accountCode?: string;
+        lines?: string; line?: string | string[]; unit: ScheduleUnit; period?: number; startDate: string;
+        nextScheduledDate?: string; endDate?: string; dueDate?: number; dueDateType?: DueDateType;
+        type?: "ACCREC" | "ACCPAY"; reference?: string; lineAmountTypes?: "Exclusive" | "Inclusive" | "NoTax";
+        currencyCode?: string; brandingThemeId?: string; status?: "DRAFT" | "AUTHORISED"; tenantId?: string;
+      };
+      if ((dueDate === undefined) !== (dueDateType === undefined)) {
+        throw new Error("--due-date and --due-date-type must be given together");
+      }
+
+      return client.createRepeatingInvoice({
+        contactName: contact,
+        lineItems: collectLineItems({ amount, description, quantity, accountCode, lines, line }),
+        schedule: { unit, period, startDate, nextScheduledDate, endDate, dueDate, dueDateType },
+        type,
+        reference,
+        lineAmountTypes,
+        currencyCode: currencyCode?.toUpperCase(),
+        brandingThemeId,
+        status,
+        tenantId,
+      });
+    },
+    "Create a repeating invoice template",
+    { write: true }
+  ),
+
+  "update-repeating-invoice": createCommand(
+    z.object({
+      id: z.string().min(1).describe("Repeating invoice ID (UUID)"),
+      unit: z.enum(["WEEKLY", "MONTHLY"]).optional().describe("Schedule unit"),
+      period: cliTypes.int(1).optional().describe("Units between invoices"),
+      startDate: z.string().optional().describe("Start date (YYYY-MM-DD)"),
+      nextScheduledDate: z.string().optional().describe("Next invoice date (YYYY-MM-DD)"),
+      endDate: z.string().optional().describe("Last date to generate invoices (YYYY-MM-DD)"),
+      dueDate: cliTypes.int(0).optional().describe("Due date value: days, or day of month (see --due-date-type)"),
+      dueDateType: z.enum(["DAYSAFTERBILLDATE", "DAYSAFTERBILLMONTH", "OFCURRENTMONTH", "OFFOLLOWINGMONTH"]).optional()
+        .describe("How --due-date is applied"),
+      amount: cliTypes.float(0).optional().describe("Replace the lines with a single line of this amount"),
+      description: z.string().optional().describe("Line item description (with --amount)"),
+      quantity: cliTypes.float(0.01).optional().describe("Line item quantity (with --amount)"),
+      accountCode: z.string().optional().describe("Account code (default for lines without one)"),
+      lines: z.string().optional().describe("JSON or CSV file of line items (replaces existing lines)"),
+      line: z.union([z.string(), z.array(z.string())]).optional()
+        .describe("Line item as key=value pairs, repeatable (replaces existing lines)"),
+      reference: z.string().optional().describe("Reference for generated invoices"),
+      status: z.enum(["DRAFT", "AUTHORISED"]).optional().describe("Template status"),
+      tenantId: z.string().optional().describe("Xero tenant ID"),
+    }),
+    async (args, client: XeroClient) => {
+      const {
+        id, unit, period, startDate, nextScheduledDate, endDate, dueDate, dueDateType,
+        amount, description, quantity, accountCode, lines, line, reference, status, tenantId,
+      } = args as {
+        id: string; unit?: ScheduleUnit; period?: number; startDate?: string; nextScheduledDate?: string;
+        endDate?: string; dueDate?: number; dueDateType?: DueDateType; amount?: number; description?: string;
+        quantity?: number; accountCode?: string; lines?: string; line?: string | string[]; reference?: string;
+        status?: "DRAFT" | "AUTHORISED"; tenantId?: string;
+      };
+
+      const schedule = Object.fromEntries(
+        Object.entries({ unit, period, startDate, nextScheduledDate, endDate, dueDate, dueDateType })
+          .filter(([, value]) => value !== undefined)
+      );
+      const replaceLines = amount !== undefined || lines !== undefined || line !== undefined;
+
+      return client.updateRepeatingInvoice(id, {
+        schedule: Object.keys(schedule).length > 0 ? schedule : undefined,
+        lineItems: replaceLines
+          ? collectLineItems({ amount, description, quantity, accountCode, lines, line })
+          : undefined,
+        reference,
+        status,
+        tenantId,
+      });
+    },
+    "Update a repeating invoice's schedule, lines, reference or status",
+    { write: true }
+  ),
+
+  "project-repeating-invoices": createCommand(
+    z.object({
+      months: cliTypes.int(1).optional().describe("Months ahead to project (default 3)"),
+      id: z.string().optional().describe("Only this repeating invoice ID (UUID)"),
+      tenantId: z.string().optional().describe("Xero tenant ID"),
+    }),
+    async (args, client: XeroClient) => {
+      const { months = 3, id, tenantId } = args as { months?: number; id?: string; tenantId?: string };
+      return client.projectRepeatingInvoices({ months, id, tenantId });
+    },
+    "List the invoices repeating templates will generate over the next N months",
+    { fanOut: true }
+  ),
+
+  // ==================== Attachments ====================
+  "list-attachments": createCommand(
+    z.object({
+      type: attachmentEntity,
+      id: z.string().min(1).describe("Record ID (UUID); invoices and bills also accept the number"),
+      tenantId: z.string().optional().describe("Xero tenant ID"),
+    }),
+    async (args, client: XeroClient) => {
+      const { type, id, tenantId } = args as { type: AttachmentEntity; id: string; tenantId?: string };
+      return client.listAttachments(type, id, tenantId);
+    },
+    "List files attached to a transaction or contact"
+  ),
+
+  "download-attachment": createCommand(
+    z.object({
+      type: attachmentEntity,
+      id: z.string().min(1).describe("Record ID (UUID); invoices and bills also accept the number"),
+      attachment: z.string().min(1).describe("Attachment ID or file name"),
+      out: z.string().optional().describe("Output file (default: the attachment's file name)"),
+      tenantId: z.string().optional().describe("Xero tenant ID"),
+    }),
+    async (args, client: XeroClient) => {
+      const { type, id, attachment, out, tenantId } = args as {
+        type: AttachmentEntity; id: string; attachment: string; out?: string; tenantId?: string;
+      };
+      const result = await client.downloadAttachment(type, id, attachment, tenantId);
+      const path = resolve(out || basename(result.attachment.FileName));
+      writeFileSync(path, result.content);
+      return { ...result.attachment, path, bytes: result.content.length };
+    },
+    "Download an attachment"
+  ),
+
+  "upload-attachment": createCommand(
+    z.object({
+      type: attachmentEntity,
+      id: z.string().min(1).describe("Record ID (UUID); invoices and bills also accept the number"),
+      file: z.string().min(1).describe("Path of the file to attach"),
+      name: z.string().optional().describe("File name to store (default: the file's name)"),
+      mimeType: z.string().optional().describe("Content type (default: from the file extension)"),
+      includeOnline: cliTypes.bool().optional().describe("Show on the online invoice (sales invoices and credit notes)"),
+      tenantId: z.string().optional().describe("Xero tenant ID"),
+    }),
+    async (args, client: XeroClient) => {
+      const { type, id, file, name, mimeType, includeOnline, tenantId } = args as {
+        type: AttachmentEntity; id: string; file: string; name?: string; mimeType?: string;
+        includeOnline?: boolean; tenantId?: string;
+      };
+      return client.uploadAttachment(type, id, {
+        fileName: name || basename(file),
+        content: readFileSync(file),
+        mimeType,
+        includeOnline,
+        tenantId,
+      });
+    },
+    "Attach a file to a transaction or contact",
+    { write: true }
   ),
 
   // ==================== Contacts ====================
   "list-contacts": createCommand(
     z.object({
-      page: cliTypes.int(1).optional().describe("Page number"),
+      page: cliTypes.int(1).optional().describe("Page number (start page with --all/--limit)"),
+      all: cliTypes.bool().optional().describe("Fetch every page"),
+      limit: cliTypes.int(1).optional().describe("Maximum records to return (walks pages)"),
       where: z.string().optional().describe("Xero filter expression"),
       order: z.string().optional().describe("Sort order field"),
+      search: z.string().optional().describe("Search name, first/last name, contact number and email"),
+      modifiedSince: z.string().optional().describe("Only records modified since (ISO timestamp)"),
       tenantId: z.string().optional().describe("Xero tenant ID"),
     }),
     async (args, client: XeroClient) => {
-      const { page, where, order, tenantId } = args as {
-        page?: number; where?: string; order?: string; tenantId?: string;
+      const { page, all, limit, where, order, search, modifiedSince, tenantId } = args as {
+        page?: number; all?: boolean; limit?: number; where?: string; order?: string;
+        search?: string; modifiedSince?: string; tenantId?: string;
       };
-      return client.listContacts({ page, where, order, tenantId });
+      return client.listContacts({ page, all, limit, where, order, searchTerm: search, modifiedSince, tenantId });
     },
-    "List contacts/customers"
+    "List contacts/customers",
+    { fanOut: true }
   ),
 
   "get-contact": createCommand(
@@ -133,43 +908,136 @@ const commands = {
     "Get specific contact details"
   ),
 
-  "create-contact": createCommand(
+  "resolve-contact": createCommand(
+    z.object({
+      contact: z.string().min(1).describe("Contact ID, contact number, email or name"),
+      tenantId: z.string().optional().describe("Xero tenant ID"),
+    }),
+    async (args, client: XeroClient) => {
+      const { contact, tenantId } = args as { contact: string; tenantId?: string };
+      const match = await client.resolveContact(contact, tenantId);
+      if (match) {
+        return { found: true, matchedBy: match.matchedBy, contact: match.contact };
+      }
+      return { found: false, candidates: await client.findSimilarContacts(contact, tenantId) };
+    },
+    "Find the contact a name/number/email/ID refers to, with near-matches if none"
+  ),
+
+  "find-duplicate-contacts": createCommand(
     z.object({
-      name: z.string().min(1).describe("Contact name"),
-      email: z.string().optional().describe("Email address"),
-      firstName: z.string().optional().describe("First name"),
-      lastName: z.string().optional().describe("Last name"),
-      phone: z.string().optional().describe("Phone number"),
+      includeArchived: cliTypes.bool().optional().describe("Also compare archived contacts"),
+      threshold: cliTypes.float(0).optional().describe("Minimum name similarity, 0-1 (default 0.85)"),
       tenantId: z.string().optional().describe("Xero tenant ID"),
     }),
     async (args, client: XeroClient) => {
-      const { name, email, firstName, lastName, phone, tenantId } = args as {
-        name: string; email?: string; firstName?: string; lastName?: string;
-        phone?: string; tenantId?: string;
+      const { includeArchived, threshold, tenantId } = args as {
+        includeArchived?: boolean; threshold?: number; tenantId?: string;
       };
-      return client.createContact({ name, email, firstName, lastName, phone, tenantId });
+      if (threshold !== undefined && threshold > 1) {
+        throw new Error("--threshold must be between 0 and 1");
+      }
+      return client.findDuplicateContacts({ includeArchived, threshold, tenantId });
     },
-    "Create a new contact"
+    "Group likely duplicate contacts with balances, activity and which record to keep",
+    { fanOut: true }
+  ),
+
+  "create-contact": createCommand(
+    z.object({
+      name: z.string().min(1).optional().describe("Contact name (required unless given in --from-json)"),
+      ...contactFieldOptions,
+      tenantId: z.string().optional().describe("Xero tenant ID"),
+    }),
+    async (args, client: XeroClient) => {
+      const { tenantId } = args as { tenantId?: string };
+      const options = contactOptionsFromArgs(args as ContactArgs);
+      if (!options.name) {
+        throw new Error("Pass --name, or a Name in --from-json");
+      }
+      return client.createContact({ ...options, name: options.name, tenantId });
+    },
+    "Create a new contact",
+    { write: true }
   ),
 
   "update-contact": createCommand(
     z.object({
       id: z.string().min(1).describe("Contact ID (UUID)"),
       name: z.string().optional().describe("Contact name"),
-      email: z.string().optional().describe("Email address"),
-      firstName: z.string().optional().describe("First name"),
-      lastName: z.string().optional().describe("Last name"),
-      phone: z.string().optional().describe("Phone number"),
+      ...contactFieldOptions,
       tenantId: z.string().optional().describe("Xero tenant ID"),
     }),
     async (args, client: XeroClient) => {
-      const { id, name, email, firstName, lastName, phone, tenantId } = args as {
-        id: string; name?: string; email?: string; firstName?: string;
-        lastName?: string; phone?: string; tenantId?: string;
-      };
-      return client.updateContact(id, { name, email, firstName, lastName, phone, tenantId });
+      const { id, tenantId } = args as { id: string; tenantId?: string };
+      const updates = contactOptionsFromArgs(args as ContactArgs);
+      if (Object.keys(updates).length === 0) {
+        throw new Error("Nothing to update - pass at least one field or --from-json");
+      }
+      return client.updateContact(id, { ...updates, tenantId });
     },
-    "Update an existing contact"
+    "Update an existing contact",
+    { write: true }
+  ),
+
+  "archive-contact": createCommand(
+    z.object({
+      id: z.string().min(1).describe("Contact ID (UUID)"),
+      force: cliTypes.bool().optional().describe("Archive even with unpaid invoices or unapplied credit"),
+      tenantId: z.string().optional().describe("Xero tenant ID"),
+    }),
+    async (args, client: XeroClient) => {
+      const { id, force, tenantId } = args as { id: string; force?: boolean; tenantId?: string };
+      const result = await client.archiveContact(id, { force, tenantId });
+      for (const item of result.openItems) {
+        console.error(`Warning: archived with money open - ${item}`);
+      }
+      return result;
+    },
+    "Archive a contact after checking for open invoices, bills and credit",
+    { write: true }
+  ),
+
+  "unarchive-contact": createCommand(
+    z.object({
+      id: z.string().min(1).describe("Contact ID (UUID)"),
+      tenantId: z.string().optional().describe("Xero tenant ID"),
+    }),
+    async (args, client: XeroClient) => {
+      const { id, tenantId } = args as { id: string; tenantId?: string };
+      return client.unarchiveContact(id, tenantId);
+    },
+    "Restore an archived contact",
+    { write: true }
+  ),
+
+  // ==================== History ====================
+  "get-history": createCommand(
+    z.object({
+      type: historyEntity,
+      id: z.string().min(1).describe("Record ID (UUID); invoices also accept the number"),
+      tenantId: z.string().optional().describe("Xero tenant ID"),
+    }),
+    async (args, client: XeroClient) => {
+      const { type, id, tenantId } = args as { type: HistoryEntity; id: string; tenantId?: string };
+      return client.getHistory(type, id, tenantId);
+    },
+    "Get the history (audit trail) of a record"
+  ),
+
+  "add-note": createCommand(
+    z.object({
+      type: historyEntity,
+      id: z.string().min(1).describe("Record ID (UUID); invoices also accept the number"),
+      text: z.string().min(1).describe("Note text (max 2500 characters)"),
+      tenantId: z.string().optional().describe("Xero tenant ID"),
+    }),
+    async (args, client: XeroClient) => {
+      const { type, id, text, tenantId } = args as { type: HistoryEntity; id: string; text: string; tenantId?: string };
+      return client.addNote(type, id, text, tenantId);
+    },
+    "Add a note to a record's history",
+    { write: true }
   ),
 
   // ==================== Accounts ====================
@@ -177,32 +1045,39 @@ const commands = {
     z.object({
       where: z.string().optional().describe("Xero filter expression"),
       order: z.string().optional().describe("Sort order field"),
+      modifiedSince: z.string().optional().describe("Only records modified since (ISO timestamp)"),
       tenantId: z.string().optional().describe("Xero tenant ID"),
     }),
     async (args, client: XeroClient) => {
-      const { where, order, tenantId } = args as {
-        where?: string; order?: string; tenantId?: string;
+      const { where, order, modifiedSince, tenantId } = args as {
+        where?: string; order?: string; modifiedSince?: string; tenantId?: string;
       };
-      return client.listAccounts({ where, order, tenantId });
+      return client.listAccounts({ where, order, modifiedSince, tenantId });
     },
-    "List chart of accounts"
+    "List chart of accounts",
+    { fanOut: true }
   ),
 
   // ==================== Payments ====================
   "list-payments": createCommand(
     z.object({
-      page: cliTypes.int(1).optional().describe("Page number"),
+      page: cliTypes.int(1).optional().describe("Page number (start page with --all/--limit)"),
+      all: cliTypes.bool().optional().describe("Fetch every page"),
+      limit: cliTypes.int(1).optional().describe("Maximum records to return (walks pages)"),
       where: z.string().optional().describe("Xero filter expression"),
       order: z.string().optional().describe("Sort order field"),
+      modifiedSince: z.string().optional().describe("Only records modified since (ISO timestamp)"),
       tenantId: z.string().optional().describe("Xero tenant ID"),
     }),
     async (args, client: XeroClient) => {
-      const { page, where, order, tenantId } = args as {
-        page?: number; where?: string; order?: string; tenantId?: string;
+      const { page, all, limit, where, order, modifiedSince, tenantId } = args as {
+        page?: number; all?: boolean; limit?: number; where?: string; order?: string;
+        modifiedSince?: string; tenantId?: string;
       };
-      return client.listPayments({ page, where, order, tenantId });
+      return client.listPayments({ page, all, limit, where, order, modifiedSince, tenantId });
     },
-    "List payment records"
+    "List payment records",
+    { fanOut: true }
   ),
 
   "create-payment": createCommand(
@@ -222,7 +1097,8 @@ const commands = {
       };
       return client.createPayment({ invoiceId: id, accountCode, amount, date, reference, currencyRate, tenantId });
     },
-    "Create a payment for an invoice"
+    "Create a payment for an invoice",
+    { write: true }
   ),
 
   // ==================== Reports ====================
@@ -241,7 +1117,8 @@ const commands = {
       };
       return client.getProfitAndLoss({ fromDate, toDate, periods, timeframe, tenantId });
     },
-    "Profit & Loss report"
+    "Profit & Loss report",
+    { fanOut: true }
   ),
 
   "get-trial-balance": createCommand(
@@ -256,7 +1133,8 @@ const commands = {
       };
       return client.getTrialBalance({ date, paymentsOnly, tenantId });
     },
-    "Trial Balance report"
+    "Trial Balance report",
+    { fanOut: true }
   ),
 
   "get-balance-sheet": createCommand(
@@ -273,7 +1151,8 @@ const commands = {
       };
       return client.getBalanceSheet({ date, periods, timeframe, tenantId });
     },
-    "Balance Sheet report"
+    "Balance Sheet report",
+    { fanOut: true }
   ),
 
   "get-aged-receivables": createCommand(
@@ -290,7 +1169,8 @@ const commands = {
       };
       return client.getAgedReceivables({ contactId: id, date, fromDate, toDate, tenantId });
     },
-    "Aged Receivables by contact"
+    "Aged Receivables by contact",
+    { fanOut: true }
   ),
 
   "get-aged-payables": createCommand(
@@ -307,7 +1187,45 @@ const commands = {
       };
       return client.getAgedPayables({ contactId: id, date, fromDate, toDate, tenantId });
     },
-    "Aged Payables by contact"
+    "Aged Payables by contact",
+    { fanOut: true }
+  ),
+
+  "get-contact-statement": createCommand(
+    z.object({
+      id: z.string().min(1).describe("Contact ID (UUID)"),
+      fromDate: z.string().optional().describe("Start date (YYYY-MM-DD, default: first day of the end date's month)"),
+      toDate: z.string().optional().describe("End date (YYYY-MM-DD, default: today)"),
+      currency: z.string().regex(/^[A-Za-z]{3}$/).optional().describe("Currency to report, if the contact uses several"),
+      output: z.enum(["json", "csv", "html"]).optional().describe("Render as json (default), csv or printable html"),
+      out: z.string().optional().describe("Write the csv or html to this file instead of printing it"),
+      tenantId: z.string().optional().describe("Xero tenant ID"),
+    }),
+    async (args, client: XeroClient) => {
+      const { id, fromDate, toDate, currency, output = "json", out, tenantId } = args as {
+        id: string; fromDate?: string; toDate?: string; currency?: string;
+        output?: "json" | "csv" | "html"; out?: string; tenantId?: string;
+      };
+      const end = toDate || new Date().toISOString().slice(0, 10);
+      const statement = await client.getContactStatement(id, {
+        fromDate: fromDate || `${end.slice(0, 7)}-01`,
+        toDate: end,
+        currencyCode: currency,
+        tenantId,
+      });
+      if (output === "json") {
+        return statement;
+      }
+
+      const rendered = output === "csv" ? renderStatementCsv(statement) : renderStatementHtml(statement);
+      if (!out) {
+        return new TextOutput(rendered);
+      }
+      const path = resolve(out);
+      writeFileSync(path, rendered);
+      return { path, bytes: Buffer.byteLength(rendered), closingBalance: statement.closingBalance };
+    },
+    "Statement for a customer: ledger with opening and running balance, and ageing"
   ),
 
   // ==================== Other ====================
@@ -317,7 +1235,8 @@ const commands = {
       const { tenantId } = args as { tenantId?: string };
       return client.getOrganisation(tenantId);
     },
-    "Organisation details"
+    "Organisation details",
+    { fanOut: true }
   ),
 
   "list-items": createCommand(
@@ -326,7 +1245,8 @@ const commands = {
       const { tenantId } = args as { tenantId?: string };
       return client.listItems(tenantId);
     },
-    "List inventory items"
+    "List inventory items",
+    { fanOut: true }
   ),
 
   "list-tax-rates": createCommand(
@@ -335,55 +1255,71 @@ const commands = {
       const { tenantId } = args as { tenantId?: string };
       return client.listTaxRates(tenantId);
     },
-    "List tax rates"
+    "List tax rates",
+    { fanOut: true }
   ),
 
   "list-credit-notes": createCommand(
     z.object({
-      page: cliTypes.int(1).optional().describe("Page number"),
+      page: cliTypes.int(1).optional().describe("Page number (start page with --all/--limit)"),
+      all: cliTypes.bool().optional().describe("Fetch every page"),
+      limit: cliTypes.int(1).optional().describe("Maximum records to return (walks pages)"),
       where: z.string().optional().describe("Xero filter expression"),
       order: z.string().optional().describe("Sort order field"),
+      modifiedSince: z.string().optional().describe("Only records modified since (ISO timestamp)"),
       tenantId: z.string().optional().describe("Xero tenant ID"),
     }),
     async (args, client: XeroClient) => {
-      const { page, where, order, tenantId } = args as {
-        page?: number; where?: string; order?: string; tenantId?: string;
+      const { page, all, limit, where, order, modifiedSince, tenantId } = args as {
+        page?: number; all?: boolean; limit?: number; where?: string; order?: string;
+        modifiedSince?: string; tenantId?: string;
       };
-      return client.listCreditNotes({ page, where, order, tenantId });
+      return client.listCreditNotes({ page, all, limit, where, order, modifiedSince, tenantId });
     },
-    "List credit notes"
+    "List credit notes",
+    { fanOut: true }
   ),
 
   "list-bank-transactions": createCommand(
     z.object({
-      page: cliTypes.int(1).optional().describe("Page number"),
+      page: cliTypes.int(1).optional().describe("Page number (start page with --all/--limit)"),
+      all: cliTypes.bool().optional().describe("Fetch every page"),
+      limit: cliTypes.int(1).optional().describe("Maximum records to return (walks pages)"),
       where: z.string().optional().describe("Xero filter expression"),
       order: z.string().optional().describe("Sort order field"),
+      modifiedSince: z.string().optional().describe("Only records modified since (ISO timestamp)"),
       tenantId: z.string().optional().describe("Xero tenant ID"),
     }),
     async (args, client: XeroClient) => {
-      const { page, where, order, tenantId } = args as {
-        page?: number; where?: string; order?: string; tenantId?: string;
+      const { page, all, limit, where, order, modifiedSince, tenantId } = args as {
+        page?: number; all?: boolean; limit?: number; where?: string; order?: string;
+        modifiedSince?: string; tenantId?: string;
       };
-      return client.listBankTransactions({ page, where, order, tenantId });
+      return client.listBankTransactions({ page, all, limit, where, order, modifiedSince, tenantId });
     },
-    "List bank transactions"
+    "List bank transactions",
+    { fanOut: true }
   ),
 
   "list-quotes": createCommand(
     z.object({
-      page: cliTypes.int(1).optional().describe("Page number"),
+      page: cliTypes.int(1).optional().describe("Page number (start page with --all/--limit)"),
+      all: cliTypes.bool().optional().describe("Fetch every page"),
+      limit: cliTypes.int(1).optional().describe("Maximum records to return (walks pages)"),
       where: z.string().optional().describe("Xero filter expression"),
       order: z.string().optional().describe("Sort order field"),
+      modifiedSince: z.string().optional().describe("Only records modified since (ISO timestamp)"),
       tenantId: z.string().optional().describe("Xero tenant ID"),
     }),
     async (args, client: XeroClient) => {
-      const { page, where, order, tenantId } = args as {
-        page?: number; where?: string; order?: string; tenantId?: string;
+      const { page, all, limit, where, order, modifiedSince, tenantId } = args as {
+        page?: number; all?: boolean; limit?: number; where?: string; order?: string;
+        modifiedSince?: string; tenantId?: string;
       };
-      return client.listQuotes({ page, where, order, tenantId });
+      return client.listQuotes({ page, all, limit, where, order, modifiedSince, tenantId });
     },
-    "List quotes"
+    "List quotes",
+    { fanOut: true }
   ),
 
   "get-quote": createCommand(
@@ -400,43 +1336,135 @@ const commands = {
 
   "list-overpayments": createCommand(
     z.object({
-      page: cliTypes.int(1).optional().describe("Page number"),
+      page: cliTypes.int(1).optional().describe("Page number (start page with --all/--limit)"),
+      all: cliTypes.bool().optional().describe("Fetch every page"),
+      limit: cliTypes.int(1).optional().describe("Maximum records to return (walks pages)"),
       where: z.string().optional().describe("Xero filter expression"),
       order: z.string().optional().describe("Sort order field"),
+      modifiedSince: z.string().optional().describe("Only records modified since (ISO timestamp)"),
       tenantId: z.string().optional().describe("Xero tenant ID"),
     }),
     async (args, client: XeroClient) => {
-      const { page, where, order, tenantId } = args as {
-        page?: number; where?: string; order?: string; tenantId?: string;
+      const { page, all, limit, where, order, modifiedSince, tenantId } = args as {
+        page?: number; all?: boolean; limit?: number; where?: string; order?: string;
+        modifiedSince?: string; tenantId?: string;
       };
-      return client.listOverpayments({ page, where, order, tenantId });
+      return client.listOverpayments({ page, all, limit, where, order, modifiedSince, tenantId });
     },
-    "List overpayments"
+    "List overpayments",
+    { fanOut: true }
   ),
 
   "list-prepayments": createCommand(
     z.object({
-      page: cliTypes.int(1).optional().describe("Page number"),
+      page: cliTypes.int(1).optional().describe("Page number (start page with --all/--limit)"),
+      all: cliTypes.bool().optional().describe("Fetch every page"),
+      limit: cliTypes.int(1).optional().describe("Maximum records to return (walks pages)"),
       where: z.string().optional().describe("Xero filter expression"),
       order: z.string().optional().describe("Sort order field"),
+      modifiedSince: z.string().optional().describe("Only records modified since (ISO timestamp)"),
       tenantId: z.string().optional().describe("Xero tenant ID"),
     }),
     async (args, client: XeroClient) => {
-      const { page, where, order, tenantId } = args as {
-        page?: number; where?: string; order?: string; tenantId?: string;
+      const { page, all, limit, where, order, modifiedSince, tenantId } = args as {
+        page?: number; all?: boolean; limit?: number; where?: string; order?: string;
+        modifiedSince?: string; tenantId?: string;
       };
-      return client.listPrepayments({ page, where, order, tenantId });
+      return client.listPrepayments({ page, all, limit, where, order, modifiedSince, tenantId });
     },
-    "List prepayments"
+    "List prepayments",
+    { fanOut: true }
   ),
 
+  // ==================== Contact Groups ====================
   "list-contact-groups": createCommand(
     z.object({ tenantId: z.string().optional().describe("Xero tenant ID") }),
     async (args, client: XeroClient) => {
       const { tenantId } = args as { tenantId?: string };
       return client.listContactGroups(tenantId);
     },
-    "List contact groups"
+    "List contact groups",
+    { fanOut: true }
+  ),
+
+  "create-contact-group": createCommand(
+    z.object({
+      name: z.string().min(1).describe("Group name"),
+      tenantId: z.string().optional().describe("Xero tenant ID"),
+    }),
+    async (args, client: XeroClient) => {
+      const { name, tenantId } = args as { name: string; tenantId?: string };
+      return client.createContactGroup({ name, tenantId });
+    },
+    "Create a contact group",
+    { write: true }
+  ),
+
+  "list-contact-group-members": createCommand(
+    z.object({
+      group: z.string().min(1).describe("Contact group ID (UUID) or name"),
+      tenantId: z.string().optional().describe("Xero tenant ID"),
+    }),
+    async (args, client: XeroClient) => {
+      const { group, tenantId } = args as { group: string; tenantId?: string };
+      return (await client.getContactGroup(group, tenantId)).Contacts || [];
+    },
+    "List the contacts in a contact group",
+    { fanOut: true }
+  ),
+
+  "add-to-contact-group": createCommand(
+    z.object({
+      group: z.string().min(1).describe("Contact group ID (UUID) or name"),
+      ids: z.string().optional().describe("Comma-separated contact IDs"),
+      where: z.string().optional().describe("Also add every contact matching this Xero filter"),
+      tenantId: z.string().optional().describe("Xero tenant ID"),
+    }),
+    async (args, client: XeroClient) => {
+      const { group, ids, where, tenantId } = args as {
+        group: string; ids?: string; where?: string; tenantId?: string;
+      };
+      return client.addToContactGroup(group, { contactIds: ids?.split(",").map((id) => id.trim()).filter(Boolean), where, tenantId });
+    },
+    "Add contacts (by ID or filter) to a contact group",
+    { write: true }
+  ),
+
+  "remove-from-contact-group": createCommand(
+    z.object({
+      group: z.string().min(1).describe("Contact group ID (UUID) or name"),
+      ids: z.string().optional().describe("Comma-separated contact IDs"),
+      where: z.string().optional().describe("Also remove every contact matching this Xero filter"),
+      tenantId: z.string().optional().describe("Xero tenant ID"),
+    }),
+    async (args, client: XeroClient) => {
+      const { group, ids, where, tenantId } = args as {
+        group: string; ids?: string; where?: string; tenantId?: string;
+      };
+      return client.removeFromContactGroup(group, { contactIds: ids?.split(",").map((id) => id.trim()).filter(Boolean), where, tenantId });
+    },
+    "Remove contacts (by ID or filter) from a contact group",
+    { write: true }
+  ),
+
+  // ==================== Sync ====================
+  "sync": createCommand(
+    z.object({
+      entity: z.enum([
+        "invoices", "contacts", "payments", "credit-notes",
+        "bank-transactions", "quotes", "overpayments", "prepayments",
+      ]).describe("Entity to sync"),
+      since: z.string().optional().describe("Override stored high-water mark (ISO timestamp)"),
+      reset: cliTypes.bool().optional().describe("Ignore stored high-water mark and pull everything"),
+      tenantId: z.string().optional().describe("Xero tenant ID"),
+    }),
+    async (args, client: XeroClient) => {
+      const { entity, since, reset, tenantId } = args as {
+        entity: SyncEntity; since?: string; reset?: boolean; tenantId?: string;
+      };
+      return client.sync(entity, { since, reset, tenantId });
+    },
+    "Return records changed since the last sync"
   ),
 
   // Pre-built cache commands
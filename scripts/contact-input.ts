@@ -0,0 +1,159 @@
+/**
+ * Contact Input
+ *
+ * Maps contact options to Xero's Contact fields and parses the structured
+ * create-contact / update-contact flags:
+ *
+ *   --street-address "line1=1 Main St;city=Wellington;postalCode=6011;country=New Zealand"
+ *   --bill-terms 30                  (30 days after the bill date)
+ *   --sales-terms 20:OFFOLLOWINGMONTH
+ *
+ * A `--from-json` document uses Xero's Contact shape (as returned by
+ * get-contact), so an existing contact can serve as a template; read-only
+ * fields such as ContactID and Balances, and fields these commands don't set
+ * (contact persons, tracking categories, branding theme), are ignored.
+ */
+
+import { readFileSync } from "fs";
+import type { Address, Contact, CreateContactOptions, PaymentTerm, UpdateContactOptions } from "./types.js";
+
+// Xero field for each contact option (phone is folded into Phones)
+export const CONTACT_FIELDS: Record<Exclude<keyof CreateContactOptions, "phone">, keyof Contact> = {
+  name: "Name",
+  email: "EmailAddress",
+  firstName: "FirstName",
+  lastName: "LastName",
+  contactNumber: "ContactNumber",
+  accountNumber: "AccountNumber",
+  taxNumber: "TaxNumber",
+  bankAccountDetails: "BankAccountDetails",
+  website: "Website",
+  defaultCurrency: "DefaultCurrency",
+  salesDefaultAccountCode: "SalesDefaultAccountCode",
+  purchasesDefaultAccountCode: "PurchasesDefaultAccountCode",
+  accountsReceivableTaxType: "AccountsReceivableTaxType",
+  accountsPayableTaxType: "AccountsPayableTaxType",
+  addresses: "Addresses",
+  phones: "Phones",
+  paymentTerms: "PaymentTerms",
+  batchPayments: "BatchPayments",
+  discount: "Discount",
+};
+
+// Fields Xero sets itself; ignored in --from-json documents
+const READ_ONLY_FIELDS = new Set<string>([
+  "ContactID",
+  "ContactStatus",
+  "UpdatedDateUTC",
+  "Balances",
+  "IsSupplier",
+  "IsCustomer",
+  "ContactGroups",
+  "XeroNetworkKey",
+  "HasAttachments",
+  "HasValidationErrors",
+  "ValidationErrors",
+  "StatusAttributeString",
+]);
+
+// Writable in Xero but not set by create-contact / update-contact; ignored in
+// --from-json documents so a get-contact result still works as a template
+const UNSUPPORTED_FIELDS = new Set<string>([
+  "ContactPersons",
+  "SkypeUserName",
+  "CompanyNumber",
+  "BrandingTheme",
+  "SalesTrackingCategories",
+  "PurchasesTrackingCategories",
+  "TrackingCategoryName",
+  "TrackingCategoryOption",
+]);
+
+export const PAYMENT_TERM_TYPES: Array<NonNullable<PaymentTerm["Type"]>> = [
+  "DAYSAFTERBILLDATE",
+  "DAYSAFTERBILLMONTH",
+  "OFCURRENTMONTH",
+  "OFFOLLOWINGMONTH",
+];
+
+// Accepted spellings for address fields, after lowercasing and dropping - _ and spaces
+const ADDRESS_FIELD_ALIASES: Record<Exclude<keyof Address, "AddressType">, string[]> = {
+  AddressLine1: ["line1", "addressline1", "street"],
+  AddressLine2: ["line2", "addressline2"],
+  AddressLine3: ["line3", "addressline3"],
+  AddressLine4: ["line4", "addressline4"],
+  City: ["city", "town"],
+  Region: ["region", "state", "county"],
+  PostalCode: ["postalcode", "postcode", "zip"],
+  Country: ["country"],
+  AttentionTo: ["attentionto", "attention", "attn"],
+};
+
+/**
+ * Parse an address spec: `key=value` pairs separated by `;`
+ */
+export function parseAddressSpec(spec: string, type: Address["AddressType"], source: string): Address {
+  const address: Address = { AddressType: type };
+  for (const part of spec.split(";")) {
+    if (!part.trim()) {
+      continue;
+    }
+    const separator = part.indexOf("=");
+    if (separator <= 0) {
+      throw new Error(`${source}: expected key=value, got "${part.trim()}"`);
+    }
+    const key = part.slice(0, separator).toLowerCase().replace(/[\s_-]/g, "");
+    const field = (Object.keys(ADDRESS_FIELD_ALIASES) as Array<keyof typeof ADDRESS_FIELD_ALIASES>).find((name) =>
+      ADDRESS_FIELD_ALIASES[name].includes(key)
+    );
+    if (!field) {
+      throw new Error(`${source}: unknown address field "${part.slice(0, separator).trim()}"`);
+    }
+    address[field] = part.slice(separator + 1).trim();
+  }
+  return address;
+}
+
+/**
+ * Parse payment terms: `<day>` (days after the bill date) or `<day>:<type>`
+ */
+export function parsePaymentTerm(spec: string, source: string): PaymentTerm {
+  const [dayText, typeText] = spec.split(":").map((part) => part.trim());
+  const day = Number(dayText);
+  if (!Number.isInteger(day) || day < 0) {
+    throw new Error(`${source}: expected a whole number of days or day of month, got "${dayText}"`);
+  }
+  const type = (typeText || "DAYSAFTERBILLDATE").toUpperCase();
+  if (!(PAYMENT_TERM_TYPES as string[]).includes(type)) {
+    throw new Error(`${source}: payment term type must be one of ${PAYMENT_TERM_TYPES.join(", ")}`);
+  }
+  return { Day: day, Type: type as PaymentTerm["Type"] };
+}
+
+/**
+ * Read contact options from a JSON file in Xero's Contact shape (an object,
+ * or { Contacts: [object] })
+ */
+export function loadContactJson(path: string): UpdateContactOptions {
+  const parsed = JSON.parse(readFileSync(path, "utf-8"));
+  const doc = Array.isArray(parsed?.Contacts) ? parsed.Contacts[0] : parsed;
+  if (!doc || typeof doc !== "object" || Array.isArray(doc)) {
+    throw new Error(`${path}: expected a contact object`);
+  }
+
+  const optionFor = new Map(Object.entries(CONTACT_FIELDS).map(([option, field]) => [field as string, option]));
+  const options: Record<string, unknown> = {};
+  const unknown: string[] = [];
+  for (const [field, value] of Object.entries(doc)) {
+    const option = optionFor.get(field);
+    if (option) {
+      options[option] = value;
+    } else if (!READ_ONLY_FIELDS.has(field) && !UNSUPPORTED_FIELDS.has(field)) {
+      unknown.push(field);
+    }
+  }
+  if (unknown.length > 0) {
+    throw new Error(`${path}: unknown contact field(s) ${unknown.join(", ")} (use Xero's field names, e.g. EmailAddress)`);
+  }
+  return options as UpdateContactOptions;
+}
@@ -0,0 +1,91 @@
+/**
+ * CSV Helpers
+ *
+ * RFC 4180 style: fields containing commas, quotes or newlines are quoted
+ * and embedded quotes are doubled.
+ */
+
+/**
+ * Parse CSV text into rows keyed by the header line.
+ * Blank lines are skipped; header names and unquoted values are trimmed.
+ */
+export function parseCsv(text: string): Array<Record<string, string>> {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  let wasQuoted = false;
+
+  const endField = () => {
+    row.push(wasQuoted ? field : field.trim());
+    field = "";
+    wasQuoted = false;
+  };
+  const endRow = () => {
+    endField();
+    if (row.some((value) => value !== "")) {
+      rows.push(row);
+    }
+    row = [];
+  };
+
+  const input = text.replace(/^\uFEFF/, "");
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+      wasQuoted = true;
+    } else if (char === ",") {
+      endField();
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") {
+        i++;
+      }
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+  if (field !== "" || row.length > 0) {
+    endRow();
+  }
+
+  const [header, ...body] = rows;
+  if (!header) {
+    return [];
+  }
+  return body.map((values) =>
+    Object.fromEntries(header.map((name, i) => [name.trim(), values[i] ?? ""]))
+  );
+}
+
+/**
+ * Quote a single CSV field if needed
+ */
+export function escapeCsvField(value: unknown): string {
+  if (value === undefined || value === null) {
+    return "";
+  }
+  const text = typeof value === "object" ? JSON.stringify(value) : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Render rows as CSV with a header line
+ */
+export function toCsv(rows: Array<Record<string, unknown>>, columns: string[]): string {
+  const lines = [columns.map(escapeCsvField).join(",")];
+  for (const row of rows) {
+    lines.push(columns.map((column) => escapeCsvField(row[column])).join(","));
+  }
+  return lines.join("\n");
+}
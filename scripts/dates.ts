@@ -0,0 +1,46 @@
+/**
+ * Xero Date Helpers
+ *
+ * Xero's JSON responses use Microsoft-style `/Date(1573755038314+0000)/`
+ * timestamps alongside plain ISO strings (`2024-01-31T00:00:00`).
+ */
+
+const MS_DATE_PATTERN = /^\/Date\((-?\d+)([+-]\d{4})?\)\/$/;
+
+/**
+ * Returns true for `/Date(...)/` values
+ */
+export function isXeroDate(value: unknown): value is string {
+  return typeof value === "string" && MS_DATE_PATTERN.test(value);
+}
+
+/**
+ * Parse a Xero `/Date(...)/` or ISO date string.
+ * ISO strings without a zone are treated as UTC, matching Xero's behaviour.
+ */
+export function parseXeroDate(value: string | undefined | null): Date | null {
+  if (!value) {
+    return null;
+  }
+
+  const match = MS_DATE_PATTERN.exec(value);
+  if (match) {
+    // The epoch value is already UTC; the offset is informational
+    return new Date(parseInt(match[1], 10));
+  }
+
+  const hasZone = /(Z|[+-]\d{2}:?\d{2})$/.test(value);
+  const date = new Date(hasZone || !value.includes("T") ? value : `${value}Z`);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Format a timestamp the way Xero expects in If-Modified-Since (UTC, no zone)
+ */
+export function toXeroDateTime(value: string | Date): string {
+  const date = typeof value === "string" ? parseXeroDate(value) : value;
+  if (!date || isNaN(date.getTime())) {
+    throw new Error(`Invalid timestamp: ${String(value)}`);
+  }
+  return date.toISOString().slice(0, 19);
+}
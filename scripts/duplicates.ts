@@ -0,0 +1,221 @@
+/**
+ * Duplicate Contacts
+ *
+ * Groups contacts that are probably the same business. Pairs are linked by
+ * similar names (see similarity.ts), the same email address, tax number or
+ * phone number; linked pairs chain into clusters, so A~B and B~C put A, B
+ * and C together. A shared company email domain is reported as supporting
+ * evidence within a cluster but never links contacts on its own.
+ *
+ * Names are only compared within blocks sharing their first three letters
+ * (after normalising), which keeps large contact lists fast.
+ */
+
+import { levenshtein, normaliseName } from "./similarity.js";
+import type {
+  Contact,
+  ContactActivity,
+  DuplicateContact,
+  DuplicateContactCluster,
+  DuplicateReason,
+} from "./types.js";
+
+/** Names at least this similar (0-1, after normalising) count as duplicates */
+export const DEFAULT_NAME_THRESHOLD = 0.85;
+
+// Shared by unrelated people, so the domain says nothing about the business
+const PUBLIC_EMAIL_DOMAINS = new Set([
+  "aol.com", "bigpond.com", "btinternet.com", "gmail.com", "gmx.com", "googlemail.com",
+  "hotmail.co.uk", "hotmail.com", "icloud.com", "live.com", "mail.com", "me.com", "msn.com",
+  "outlook.com", "proton.me", "protonmail.com", "xtra.co.nz", "yahoo.co.uk", "yahoo.com",
+]);
+
+// Phone numbers are compared on their last digits so "+64 9 123 4567" matches "09 123 4567"
+const PHONE_KEY_DIGITS = 8;
+const MIN_PHONE_DIGITS = 7;
+const MIN_TAX_NUMBER_LENGTH = 5;
+
+function emailKey(contact: Contact): string | undefined {
+  return contact.EmailAddress?.trim().toLowerCase() || undefined;
+}
+
+function emailDomainKey(contact: Contact): string | undefined {
+  const domain = emailKey(contact)?.split("@")[1];
+  return domain && !PUBLIC_EMAIL_DOMAINS.has(domain) ? domain : undefined;
+}
+
+function taxNumberKey(contact: Contact): string | undefined {
+  const key = contact.TaxNumber?.toUpperCase().replace(/[^A-Z0-9]/g, "");
+  return key && key.length >= MIN_TAX_NUMBER_LENGTH ? key : undefined;
+}
+
+function phoneKeys(contact: Contact): string[] {
+  return (contact.Phones || [])
+    .map((phone) => `${phone.PhoneAreaCode || ""}${phone.PhoneNumber || ""}`.replace(/\D/g, ""))
+    .filter((digits) => digits.length >= MIN_PHONE_DIGITS)
+    .map((digits) => digits.slice(-PHONE_KEY_DIGITS));
+}
+
+/**
+ * Clusters of two or more contacts that look like the same business, largest first.
+ *
+ * @param contacts - Contacts to compare
+ * @param threshold - Minimum name similarity (0-1) to link two names
+ */
+export function clusterDuplicateContacts(
+  contacts: Contact[],
+  threshold = DEFAULT_NAME_THRESHOLD
+): Array<{ contacts: Contact[]; reasons: DuplicateReason[] }> {
+  const parent = contacts.map((_, i) => i);
+  const root = (i: number): number => (parent[i] === i ? i : (parent[i] = root(parent[i])));
+  const links: Array<{ a: number; b: number; reason: DuplicateReason }> = [];
+  const link = (a: number, b: number, reason: DuplicateReason) => {
+    links.push({ a, b, reason });
+    parent[root(a)] = root(b);
+  };
+
+  // Exact signals: everything sharing a key is linked to the first holder
+  const signals: Array<[DuplicateReason["signal"], (contact: Contact) => string[]]> = [
+    ["email", (c) => [emailKey(c)].filter((k): k is string => !!k)],
+    ["taxNumber", (c) => [taxNumberKey(c)].filter((k): k is string => !!k)],
+    ["phone", (c) => [...new Set(phoneKeys(c))]],
+  ];
+  for (const [signal, keysOf] of signals) {
+    const firstHolder = new Map<string, number>();
+    contacts.forEach((contact, i) => {
+      for (const key of keysOf(contact)) {
+        const first = firstHolder.get(key);
+        if (first === undefined) {
+          firstHolder.set(key, i);
+        } else {
+          link(first, i, { signal, value: key });
+        }
+      }
+    });
+  }
+
+  // Names: identical once normalised, or within the similarity threshold
+  const names = contacts.map((contact) => normaliseName(contact.Name || ""));
+  const blocks = new Map<string, number[]>();
+  names.forEach((name, i) => {
+    if (name) {
+      const block = blocks.get(name.slice(0, 3)) || [];
+      block.push(i);
+      blocks.set(name.slice(0, 3), block);
+    }
+  });
+  for (const block of blocks.values()) {
+    for (let x = 0; x < block.length; x++) {
+      for (let y = x + 1; y < block.length; y++) {
+        const [a, b] = [block[x], block[y]];
+        const similarity = 1 - levenshtein(names[a], names[b]) / Math.max(names[a].length, names[b].length);
+        if (similarity >= threshold) {
+          const value = names[a] === names[b] ? names[a] : `${names[a]} ~ ${names[b]}`;
+          link(a, b, { signal: "name", value });
+        }
+      }
+    }
+  }
+
+  // Colleagues at one company share a domain, so it only backs up other links
+  const domainHolders = new Map<string, number>();
+  contacts.forEach((contact, i) => {
+    const domain = emailDomainKey(contact);
+    const key = `${domain}:${root(i)}`;
+    const first = domainHolders.get(key);
+    if (domain && first !== undefined) {
+      links.push({ a: first, b: i, reason: { signal: "emailDomain", value: domain } });
+    } else if (domain) {
+      domainHolders.set(key, i);
+    }
+  });
+
+  const clusters = new Map<number, { contacts: Contact[]; reasons: Map<string, DuplicateReason> }>();
+  contacts.forEach((contact, i) => {
+    const key = root(i);
+    const cluster = clusters.get(key) || { contacts: [] as Contact[], reasons: new Map<string, DuplicateReason>() };
+    cluster.contacts.push(contact);
+    clusters.set(key, cluster);
+  });
+  for (const { a, reason } of links) {
+    clusters.get(root(a))!.reasons.set(`${reason.signal}:${reason.value}`, reason);
+  }
+
+  return [...clusters.values()]
+    .filter((cluster) => cluster.contacts.length > 1)
+    .map((cluster) => ({ contacts: cluster.contacts, reasons: [...cluster.reasons.values()] }))
+    .sort((a, b) => b.contacts.length - a.contacts.length);
+}
+
+function round(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+// Filled-in fields, as a tie-breaker when choosing the record to keep
+function detailCount(contact: Contact): number {
+  return [contact.EmailAddress, contact.TaxNumber, contact.ContactNumber, contact.BankAccountDetails,
+    contact.Addresses?.some((a) => a.AddressLine1), contact.Phones?.some((p) => p.PhoneNumber)]
+    .filter(Boolean).length;
+}
+
+/**
+ * Suggest which contact in a cluster to keep and what to do with the rest.
+ *
+ * The keeper is the active contact with the most invoices and bills, then
+ * the largest open balance, then the most complete details.
+ *
+ * @param cluster - Contacts and reasons from clusterDuplicateContacts
+ * @param activity - Invoice and bill activity by ContactID
+ */
+export function describeDuplicateCluster(
+  cluster: { contacts: Contact[]; reasons: DuplicateReason[] },
+  activity: Map<string, ContactActivity>
+): DuplicateContactCluster {
+  const none: ContactActivity = { invoices: 0, bills: 0, receivable: 0, payable: 0 };
+  const activityOf = (contact: Contact) => activity.get(contact.ContactID) || none;
+  const rank = (contact: Contact): number[] => {
+    const { invoices, bills, receivable, payable } = activityOf(contact);
+    return [contact.ContactStatus === "ACTIVE" ? 1 : 0, invoices + bills, receivable + payable, detailCount(contact)];
+  };
+  const compare = (a: Contact, b: Contact) => {
+    const [left, right] = [rank(a), rank(b)];
+    const index = left.findIndex((value, i) => value !== right[i]);
+    return index < 0 ? 0 : right[index] - left[index];
+  };
+  const ordered = [...cluster.contacts].sort(compare);
+  const keeper = ordered[0];
+
+  const contacts: DuplicateContact[] = ordered.map((contact) => {
+    const stats = activityOf(contact);
+    const isKeeper = contact === keeper;
+    const notes: string[] = [];
+    if (isKeeper) {
+      const count = stats.invoices + stats.bills;
+      notes.push(count > 0 ? `Keep: most invoices and bills in this group (${count})` : "Keep: no transactions on any record; most complete details");
+    } else {
+      if (stats.receivable > 0) {
+        notes.push(`${round(stats.receivable)} outstanding on sales invoices - collect, credit or re-issue them to ${keeper.Name} before archiving`);
+      }
+      if (stats.payable > 0) {
+        notes.push(`${round(stats.payable)} outstanding on bills - pay or move them to ${keeper.Name} before archiving`);
+      }
+      if (stats.invoices + stats.bills > 0) {
+        notes.push(`${stats.invoices + stats.bills} past transaction(s) stay on this record when archived; merge it into ${keeper.Name} in Xero to move them`);
+      }
+    }
+    return {
+      ContactID: contact.ContactID,
+      Name: contact.Name,
+      ContactStatus: contact.ContactStatus,
+      EmailAddress: contact.EmailAddress,
+      TaxNumber: contact.TaxNumber,
+      ...stats,
+      receivable: round(stats.receivable),
+      payable: round(stats.payable),
+      suggestion: isKeeper ? "keep" : "archive",
+      notes,
+    };
+  });
+
+  return { reasons: cluster.reasons, keep: keeper.ContactID, contacts };
+}
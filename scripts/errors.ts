@@ -0,0 +1,193 @@
+/**
+ * Xero API Errors
+ *
+ * Typed error hierarchy for failed Xero API calls. Each class carries the
+ * request context (method, endpoint, status, correlation ID) and maps to a
+ * distinct CLI exit code. XeroPreflightError covers input rejected locally
+ * before any request is made.
+ */
+
+import type { ContactCandidate, ValidationError, XeroErrorResponse } from "./types.js";
+
+export interface XeroApiErrorDetails {
+  status: number;
+  method: string;
+  endpoint: string;
+  correlationId?: string;
+  validationErrors?: ValidationError[];
+  retryAfterSeconds?: number;
+  responseBody?: string;
+}
+
+/**
+ * Base class for any non-2xx response from Xero
+ */
+export class XeroApiError extends Error {
+  readonly code: string = "XERO_API_ERROR";
+  readonly exitCode: number = 1;
+  readonly status: number;
+  readonly method: string;
+  readonly endpoint: string;
+  readonly correlationId?: string;
+  readonly validationErrors: ValidationError[];
+  readonly responseBody?: string;
+
+  constructor(message: string, details: XeroApiErrorDetails) {
+    super(message);
+    this.name = new.target.name;
+    this.status = details.status;
+    this.method = details.method;
+    this.endpoint = details.endpoint;
+    this.correlationId = details.correlationId;
+    this.validationErrors = details.validationErrors || [];
+    this.responseBody = details.responseBody;
+  }
+
+  /**
+   * Machine-readable representation printed by the CLI
+   */
+  toJSON(): Record<string, unknown> {
+    return {
+      error: true,
+      type: this.name,
+      code: this.code,
+      message: this.message,
+      status: this.status,
+      method: this.method,
+      endpoint: this.endpoint,
+      correlationId: this.correlationId,
+      ...(this.validationErrors.length > 0 ? { validationErrors: this.validationErrors } : {}),
+    };
+  }
+}
+
+/** 401/403 - invalid credentials, expired token or missing scope */
+export class XeroAuthError extends XeroApiError {
+  readonly code = "AUTH_ERROR";
+  readonly exitCode = 3;
+}
+
+/** 404 - record or endpoint does not exist */
+export class XeroNotFoundError extends XeroApiError {
+  readonly code = "NOT_FOUND";
+  readonly exitCode = 4;
+}
+
+/** 400 - Xero rejected the payload; see validationErrors */
+export class XeroValidationError extends XeroApiError {
+  readonly code = "VALIDATION_ERROR";
+  readonly exitCode = 2;
+}
+
+/** 429 - minute, daily or app-wide limit exceeded after retries */
+export class XeroRateLimitError extends XeroApiError {
+  readonly code = "RATE_LIMITED";
+  readonly exitCode = 5;
+  readonly retryAfterSeconds?: number;
+
+  constructor(message: string, details: XeroApiErrorDetails) {
+    super(message, details);
+    this.retryAfterSeconds = details.retryAfterSeconds;
+  }
+
+  toJSON(): Record<string, unknown> {
+    return { ...super.toJSON(), retryAfterSeconds: this.retryAfterSeconds };
+  }
+}
+
+/** 503 - the organisation is offline (e.g. mid-upgrade or restore) */
+export class XeroOrgOfflineError extends XeroApiError {
+  readonly code = "ORGANISATION_OFFLINE";
+  readonly exitCode = 6;
+}
+
+/**
+ * Input rejected locally before anything was sent to Xero
+ */
+export class XeroPreflightError extends Error {
+  readonly code: string = "PREFLIGHT_FAILED";
+  readonly exitCode: number = 2;
+  readonly problems: string[];
+
+  constructor(message: string, problems: string[]) {
+    super(message);
+    this.name = new.target.name;
+    this.problems = problems;
+  }
+
+  toJSON(): Record<string, unknown> {
+    return {
+      error: true,
+      type: this.name,
+      code: this.code,
+      message: this.message,
+      ...(this.problems.length > 0 ? { problems: this.problems } : {}),
+    };
+  }
+}
+
+/** A contact reference matched nothing; candidates are the closest names */
+export class XeroContactNotFoundError extends XeroPreflightError {
+  readonly code = "CONTACT_NOT_FOUND";
+  readonly exitCode = 4;
+  readonly candidates: ContactCandidate[];
+
+  constructor(message: string, candidates: ContactCandidate[]) {
+    super(message, []);
+    this.candidates = candidates;
+  }
+
+  toJSON(): Record<string, unknown> {
+    return { ...super.toJSON(), candidates: this.candidates };
+  }
+}
+
+/**
+ * Pull every ValidationErrors entry out of a Xero error body
+ */
+export function parseValidationErrors(body: XeroErrorResponse | null): ValidationError[] {
+  if (!body?.Elements) {
+    return [];
+  }
+  return body.Elements.flatMap((element) => element.ValidationErrors || []);
+}
+
+/**
+ * Build the appropriate XeroApiError subclass for a failed response
+ */
+export function createXeroApiError(
+  details: Omit<XeroApiErrorDetails, "validationErrors"> & { responseBody: string }
+): XeroApiError {
+  let body: XeroErrorResponse | null = null;
+  try {
+    body = JSON.parse(details.responseBody);
+  } catch {
+    // Xero returns plain text for some errors (404, 503)
+  }
+
+  const validationErrors = parseValidationErrors(body);
+  const summary =
+    validationErrors.map((e) => e.Message).filter(Boolean).join("; ") ||
+    body?.Message ||
+    body?.Detail ||
+    body?.Title ||
+    details.responseBody.trim() ||
+    "No response body";
+  const message = `Xero API error (${details.status}) on ${details.method} ${details.endpoint}: ${summary}`;
+  const fullDetails: XeroApiErrorDetails = { ...details, validationErrors };
+
+  switch (true) {
+    case details.status === 400:
+      return new XeroValidationError(message, fullDetails);
+    case details.status === 401 || details.status === 403:
+      return new XeroAuthError(message, fullDetails);
+    case details.status === 404:
+      return new XeroNotFoundError(message, fullDetails);
+    case details.status === 429:
+      return new XeroRateLimitError(message, fullDetails);
+    case details.status === 503 && /offline/i.test(details.responseBody):
+      return new XeroOrgOfflineError(message, fullDetails);
+    default:
+      return new XeroApiError(message, fullDetails);
+  }
+}
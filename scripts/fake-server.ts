@@ -0,0 +1,605 @@
+#!/usr/bin/env npx tsx
+/**
+ * Fake Xero Server
+ *
+ * Local stand-in for identity.xero.com and api.xero.com so the client and
+ * every CLI command can run offline. Point the CLI at it with XERO_BASE_URL:
+ *
+ *   npx tsx fake-server.ts --port 4010
+ *   XERO_BASE_URL=http://127.0.0.1:4010 XERO_CLIENT_ID=x XERO_CLIENT_SECRET=y npx tsx cli.ts list-invoices
+ *
+ * Requests are answered from, in order:
+ * 1. Recorded exchanges (see XERO_RECORD_DIR in transport.ts) in --recordings
+ * 2. An in-memory store seeded from fixtures/*.json (Invoices, Contacts,
+ *    Payments, Accounts, Items, TaxRates, RepeatingInvoices, ContactGroups,
+ *    CreditNotes, Overpayments, Prepayments) supporting list/get/create/
+ *    update, plus the invoice Email and OnlineInvoice actions, contact group
+ *    membership, placeholder PDFs (Accept: application/pdf), in-memory
+ *    attachments and history notes
+ * 3. fixtures/reports/<ReportName>.json for /Reports/* and
+ *    fixtures/organisation.json for /Organisation
+ */
+
+import { createServer, IncomingMessage, ServerResponse } from "http";
+import type { AddressInfo } from "net";
+import { existsSync, readFileSync } from "fs";
+import { randomUUID } from "crypto";
+import { fileURLToPath } from "url";
+import { dirname, join } from "path";
+import { recordingFileName, recordingKey } from "./transport.js";
+import type { RecordedExchange } from "./transport.js";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+const API_PREFIX = "/api.xro/2.0";
+const PAGE_SIZE = 100;
+const FAKE_ACCESS_TOKEN = "fake-access-token";
+
+type XeroRecord = Record<string, any>;
+
+/**
+ * Sum of a document's line amounts (Quantity defaults to 1, as in Xero)
+ */
+function lineTotal(record: XeroRecord): number {
+  return (record.LineItems || []).reduce(
+    (total: number, item: XeroRecord) => total + (item.Quantity ?? 1) * (item.UnitAmount ?? 0),
+    0
+  );
+}
+
+interface CollectionSpec {
+  idField: string;
+  numberField?: string;
+  /** Fields matched (case-insensitive substring) by the searchTerm parameter */
+  searchFields?: string[];
+  defaults?: (record: XeroRecord, store: XeroRecord[]) => XeroRecord;
+  validate?: (record: XeroRecord, store: XeroRecord[]) => string[];
+}
+
+const COLLECTIONS: Record<string, CollectionSpec> = {
+  Invoices: {
+    idField: "InvoiceID",
+    numberField: "InvoiceNumber",
+    defaults: (record, store) => ({
+      Status: "DRAFT",
+      InvoiceNumber: `INV-${String(store.length + 1).padStart(4, "0")}`,
+      AmountPaid: 0,
+      ...record,
+    }),
+    validate: (record, store) => [
+      ...(record.Contact ? [] : ["A Contact must be specified with this type of transaction"]),
+      ...(record.LineItems?.length ? [] : ["At least one line item must be specified"]),
+      ...(lineTotal(record) < 0 ? ["Invoice total must not be negative"] : []),
+      ...(record.Type !== "ACCPAY" && record.InvoiceNumber &&
+        store.some((r) => r.InvoiceNumber === record.InvoiceNumber && r.Status !== "DELETED")
+        ? ["Invoice # must be unique."]
+        : []),
+    ],
+  },
+  Contacts: {
+    idField: "ContactID",
+    numberField: "ContactNumber",
+    searchFields: ["Name", "FirstName", "LastName", "ContactNumber", "EmailAddress"],
+    defaults: (record) => ({ ContactStatus: "ACTIVE", ...record }),
+    validate: (record) => (record.Name ? [] : ["The contact name must be specified"]),
+  },
+  Payments: {
+    idField: "PaymentID",
+    defaults: (record) => ({ Status: "AUTHORISED", ...record }),
+  },
+  Accounts: {
+    idField: "AccountID",
+    numberField: "Code",
+  },
+  Items: {
+    idField: "ItemID",
+    numberField: "Code",
+  },
+  TaxRates: {
+    idField: "TaxType",
+  },
+  RepeatingInvoices: {
+    idField: "RepeatingInvoiceID",
+    defaults: (record) => ({ Status: "DRAFT", ...record }),
+    validate: (record) => [
+      ...(record.Contact ? [] : ["A Contact must be specified with this type of transaction"]),
+      ...(record.Schedule?.Unit ? [] : ["A schedule Unit must be specified"]),
+      ...(record.LineItems?.length ? [] : ["At least one line item must be specified"]),
+    ],
+  },
+  CreditNotes: {
+    idField: "CreditNoteID",
+    numberField: "CreditNoteNumber",
+  },
+  Overpayments: {
+    idField: "OverpaymentID",
+  },
+  Prepayments: {
+    idField: "PrepaymentID",
+  },
+  ContactGroups: {
+    idField: "ContactGroupID",
+    defaults: (record) => ({ Status: "ACTIVE", Contacts: [], ...record }),
+    validate: (record, store) => [
+      ...(record.Name ? [] : ["The contact group name must be specified"]),
+      ...(store.some((r) => r.Status === "ACTIVE" && r.Name === record.Name)
+        ? ["A contact group with this name already exists"]
+        : []),
+    ],
+  },
+};
+
+// ==================== Arguments ====================
+
+function argValue(name: string, fallback: string): string {
+  const index = process.argv.indexOf(`--${name}`);
+  return index >= 0 && process.argv[index + 1] ? process.argv[index + 1] : fallback;
+}
+
+const port = parseInt(argValue("port", process.env.XERO_FAKE_PORT || "4010"), 10);
+const fixturesDir = argValue("fixtures", join(__dirname, "fixtures"));
+const recordingsDir = argValue("recordings", join(fixturesDir, "recordings"));
+
+// ==================== Store ====================
+
+function loadFixture<T>(name: string, fallback: T): T {
+  const path = join(fixturesDir, name);
+  return existsSync(path) ? JSON.parse(readFileSync(path, "utf-8")) : fallback;
+}
+
+const connections = loadFixture<XeroRecord[]>("connections.json", []);
+const organisation = loadFixture<XeroRecord | null>("organisation.json", null);
+
+// Uploaded files by "<Collection>/<record id>"
+const attachments = new Map<string, Array<XeroRecord & { content: Buffer }>>();
+// History notes by "<Collection>/<record id>"
+const history = new Map<string, XeroRecord[]>();
+const store: Record<string, XeroRecord[]> = Object.fromEntries(
+  Object.keys(COLLECTIONS).map((name) => [name, loadFixture<XeroRecord[]>(`${name.toLowerCase()}.json`, [])])
+);
+
+// ==================== Where Filter ====================
+
+function getPath(record: XeroRecord, path: string): unknown {
+  return path.split(".").reduce<any>((value, key) => value?.[key], record);
+}
+
+type Literal = string | number | boolean;
+
+interface WhereClause {
+  field: string;
+  operator: string;
+  expected: Literal;
+}
+
+function parseLiteral(raw: string): Literal | undefined {
+  const value = raw.trim();
+  const guid = /^Guid\("(.*)"\)$/i.exec(value);
+  if (guid) return guid[1];
+  // Quotes inside a string literal are doubled
+  const quoted = /^"((?:[^"]|"")*)"$/.exec(value);
+  if (quoted) return quoted[1].replace(/""/g, '"');
+  if (value === "true" || value === "false") return value === "true";
+  if (value !== "" && !isNaN(Number(value))) return Number(value);
+  return undefined;
+}
+
+/**
+ * Minimal Xero `where` support: comparisons of a field with a string, Guid,
+ * number or boolean literal, joined by && / AND. Anything else (e.g.
+ * `Name.Contains(...)`) returns undefined so the request can be rejected
+ * rather than silently matching everything.
+ */
+function parseWhere(where: string): WhereClause[] | undefined {
+  const clauses: WhereClause[] = [];
+  for (const clause of where.split(/\s*(?:&&|\bAND\b)\s*/)) {
+    const match = /^([\w.]+)\s*(==|!=|>=|<=|>|<)\s*(.+)$/.exec(clause.trim());
+    const expected = match ? parseLiteral(match[3]) : undefined;
+    if (!match || expected === undefined) return undefined;
+    clauses.push({ field: match[1], operator: match[2], expected });
+  }
+  return clauses;
+}
+
+/**
+ * Order of two values of the same literal type; undefined when the types differ
+ */
+function compareLiteral(actual: unknown, expected: Literal): number | undefined {
+  if (typeof actual === "number" && typeof expected === "number") return actual - expected;
+  if (typeof actual === "boolean" && typeof expected === "boolean") return Number(actual) - Number(expected);
+  if (typeof actual === "string" && typeof expected === "string") {
+    return actual < expected ? -1 : actual > expected ? 1 : 0;
+  }
+  return undefined;
+}
+
+function matchesWhere(record: XeroRecord, clauses: WhereClause[]): boolean {
+  return clauses.every(({ field, operator, expected }) => {
+    const order = compareLiteral(getPath(record, field), expected);
+    if (order === undefined) return operator === "!=";
+    switch (operator) {
+      case "==": return order === 0;
+      case "!=": return order !== 0;
+      case ">": return order > 0;
+      case "<": return order < 0;
+      case ">=": return order >= 0;
+      case "<=": return order <= 0;
+    }
+    return false;
+  });
+}
+
+// ==================== Responses ====================
+
+function send(res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}): void {
+  const text = typeof body === "string" ? body : JSON.stringify(body);
+  res.writeHead(status, {
+    "Content-Type": typeof body === "string" ? "text/plain" : "application/json",
+    "Xero-Correlation-Id": randomUUID(),
+    "X-MinLimit-Remaining": "59",
+    "X-DayLimit-Remaining": "4999",
+    "X-AppMinLimit-Remaining": "9999",
+    ...headers,
+  });
+  res.end(text);
+}
+
+function validationFailure(res: ServerResponse, elements: XeroRecord[]): void {
+  send(res, 400, {
+    ErrorNumber: 10,
+    Type: "ValidationException",
+    Message: "A validation exception occurred",
+    Elements: elements,
+  });
+}
+
+async function readBody(req: IncomingMessage): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks);
+}
+
+// ==================== Handlers ====================
+
+function replayRecording(method: string, url: string, body: unknown): RecordedExchange | null {
+  const { path, query } = recordingKey(url);
+  const file = join(recordingsDir, recordingFileName(method, path, query, body));
+  return existsSync(file) ? JSON.parse(readFileSync(file, "utf-8")) : null;
+}
+
+function handleCollection(
+  res: ServerResponse,
+  method: string,
+  collection: string,
+  id: string | undefined,
+  params: URLSearchParams,
+  body: XeroRecord | undefined
+): void {
+  const spec = COLLECTIONS[collection];
+  const records = store[collection];
+  const find = (key: string) =>
+    records.find((r) => r[spec.idField] === key || (spec.numberField && r[spec.numberField] === key));
+
+  if (method === "GET") {
+    if (id) {
+      const record = find(id);
+      return record
+        ? send(res, 200, { [collection]: [record] })
+        : send(res, 404, "The resource you're looking for cannot be found");
+    }
+
+    const where = params.get("where");
+    const clauses = where ? parseWhere(where) : [];
+    if (!clauses) {
+      return send(res, 400, {
+        ErrorNumber: 16,
+        Type: "QueryParseException",
+        Message: `The fake server doesn't support this where clause: ${where}`,
+      });
+    }
+
+    const searchTerm = params.get("searchTerm")?.toLowerCase();
+    const numbers = spec.numberField && params.get(`${collection.replace(/s$/, "")}Numbers`)?.split(",");
+    // GUID filters match whatever their case, as in Xero
+    const contactIds = params.get("ContactIDs")?.toLowerCase().split(",");
+    const ids = params.get("IDs")?.toLowerCase().split(",");
+    const filtered = records.filter(
+      (r) =>
+        matchesWhere(r, clauses) &&
+        (!searchTerm || !!spec.searchFields?.some((f) => String(r[f] ?? "").toLowerCase().includes(searchTerm))) &&
+        (!numbers || numbers.includes(r[spec.numberField!])) &&
+        (!contactIds || contactIds.includes(String(r.Contact?.ContactID).toLowerCase())) &&
+        (!ids || ids.includes(String(r[spec.idField]).toLowerCase()))
+    );
+    const page = parseInt(params.get("page") || "0", 10);
+    const paged = page > 0 ? filtered.slice((page - 1) * PAGE_SIZE, page * PAGE_SIZE) : filtered;
+    return send(res, 200, { [collection]: paged });
+  }
+
+  if (method === "PUT" || method === "POST") {
+    const incoming: XeroRecord[] = body?.[collection] || [];
+    const results: XeroRecord[] = [];
+    const failures: XeroRecord[] = [];
+    const outcomes: XeroRecord[] = [];
+
+    for (const item of incoming) {
+      const existing = item[spec.idField] ? find(item[spec.idField]) : undefined;
+      if (existing) {
+        Object.assign(existing, item, { UpdatedDateUTC: `/Date(${Date.now()}+0000)/` });
+        results.push(existing);
+        outcomes.push(existing);
+        continue;
+      }
+
+      const errors = spec.validate?.(item, records) || [];
+      if (errors.length > 0) {
+        const failure = { ...item, HasErrors: true, ValidationErrors: errors.map((Message) => ({ Message })) };
+        failures.push(failure);
+        outcomes.push(failure);
+        continue;
+      }
+
+      const created = {
+        ...(spec.defaults ? spec.defaults(item, records) : item),
+        [spec.idField]: randomUUID(),
+        UpdatedDateUTC: `/Date(${Date.now()}+0000)/`,
+      };
+      records.push(created);
+      results.push(created);
+      outcomes.push(created);
+    }
+
+    // summarizeErrors=false: every element comes back in order, failures inline
+    if (params.get("summarizeErrors") === "false") {
+      return send(res, 200, { [collection]: outcomes });
+    }
+    return failures.length > 0
+      ? validationFailure(res, failures)
+      : send(res, 200, { [collection]: results });
+  }
+
+  send(res, 405, `Method ${method} not supported by the fake server`);
+}
+
+/**
+ * Single-page placeholder PDF for any record the store knows about
+ */
+function sendPdf(res: ServerResponse, collection: string, id: string): void {
+  const spec = COLLECTIONS[collection];
+  const record = spec && store[collection].find(
+    (r) => r[spec.idField] === id || (spec.numberField && r[spec.numberField] === id)
+  );
+  if (!record) {
+    return send(res, 404, "The resource you're looking for cannot be found");
+  }
+  const title = `${collection} ${(spec.numberField && record[spec.numberField]) || record[spec.idField]}`;
+  const pdf = [
+    "%PDF-1.4",
+    "1 0 obj << /Type /Catalog /Pages 2 0 R >> endobj",
+    "2 0 obj << /Type /Pages /Kids [3 0 R] /Count 1 >> endobj",
+    "3 0 obj << /Type /Page /Parent 2 0 R /MediaBox [0 0 595 842] /Contents 4 0 R >> endobj",
+    `4 0 obj << >> stream\nBT /F1 12 Tf 72 770 Td (${title}) Tj ET\nendstream endobj`,
+    "trailer << /Root 1 0 R >>",
+    "%%EOF",
+  ].join("\n");
+  res.writeHead(200, { "Content-Type": "application/pdf", "Xero-Correlation-Id": randomUUID() });
+  res.end(pdf);
+}
+
+/**
+ * /{Collection}/{id}/Attachments[/{AttachmentID or FileName}]
+ */
+function handleAttachments(
+  res: ServerResponse,
+  method: string,
+  key: string,
+  fileKey: string | undefined,
+  params: URLSearchParams,
+  content: Buffer,
+  contentType: string | undefined
+): void {
+  const files = attachments.get(key) || [];
+  const fileName = fileKey && decodeURIComponent(fileKey);
+  const describe = ({ content: _content, ...meta }: XeroRecord) => meta;
+
+  if (method === "GET" && !fileName) {
+    return send(res, 200, { Attachments: files.map(describe) });
+  }
+  if (method === "GET") {
+    const file = files.find((f) => f.AttachmentID === fileName || f.FileName === fileName);
+    if (!file) {
+      return send(res, 404, "The resource you're looking for cannot be found");
+    }
+    res.writeHead(200, { "Content-Type": file.MimeType, "Xero-Correlation-Id": randomUUID() });
+    return void res.end(file.content);
+  }
+  if ((method === "POST" || method === "PUT") && fileName) {
+    const file = {
+      AttachmentID: randomUUID(),
+      FileName: fileName,
+      Url: `https://api.xero.com/api.xro/2.0/${key}/Attachments/${encodeURIComponent(fileName)}`,
+      MimeType: contentType || "application/octet-stream",
+      ContentLength: content.length,
+      IncludeOnline: params.get("IncludeOnline") === "true",
+      content,
+    };
+    attachments.set(key, [...files.filter((f) => f.FileName !== fileName), file]);
+    return send(res, 200, { Attachments: [describe(file)] });
+  }
+  send(res, 405, `Method ${method} not supported by the fake server`);
+}
+
+/**
+ * /{Collection}/{id}/History: notes added through the API (no automatic entries)
+ */
+function handleHistory(res: ServerResponse, method: string, key: string, body: XeroRecord | undefined): void {
+  const records = history.get(key) || [];
+  if (method === "GET") {
+    return send(res, 200, { HistoryRecords: records });
+  }
+  if (method === "PUT" || method === "POST") {
+    const added = (body?.HistoryRecords || []).map((record: XeroRecord) => ({
+      Changes: "Note",
+      DateUTC: new Date().toISOString().replace("Z", ""),
+      User: "Fake Xero",
+      Details: record.Details,
+    }));
+    history.set(key, [...records, ...added]);
+    return send(res, 200, { HistoryRecords: added });
+  }
+  send(res, 405, `Method ${method} not supported by the fake server`);
+}
+
+/**
+ * /ContactGroups/{id}/Contacts[/{ContactID}]: add members, remove one or all
+ */
+function handleGroupContacts(
+  res: ServerResponse,
+  method: string,
+  groupId: string,
+  contactId: string | undefined,
+  body: XeroRecord | undefined
+): void {
+  const group = store.ContactGroups.find((g) => g.ContactGroupID === groupId);
+  if (!group) {
+    return send(res, 404, "The resource you're looking for cannot be found");
+  }
+  if (method === "PUT" && !contactId) {
+    const added: XeroRecord[] = [];
+    for (const { ContactID } of body?.Contacts || []) {
+      const contact = store.Contacts.find((c) => c.ContactID === ContactID);
+      if (!contact) {
+        return validationFailure(res, [{ ValidationErrors: [{ Message: `Contact ${ContactID} does not exist` }] }]);
+      }
+      added.push({ ContactID, Name: contact.Name });
+    }
+    const members: XeroRecord[] = group.Contacts || [];
+    group.Contacts = [...members, ...added.filter((a) => !members.some((m) => m.ContactID === a.ContactID))];
+    return send(res, 200, { Contacts: added });
+  }
+  if (method === "DELETE") {
+    group.Contacts = contactId ? (group.Contacts || []).filter((c: XeroRecord) => c.ContactID !== contactId) : [];
+    res.writeHead(204, { "Xero-Correlation-Id": randomUUID() });
+    return void res.end();
+  }
+  send(res, 405, `Method ${method} not supported by the fake server`);
+}
+
+/**
+ * /Invoices/{id}/Email and /Invoices/{id}/OnlineInvoice
+ */
+function handleInvoiceAction(res: ServerResponse, method: string, id: string, action: string): void {
+  const invoice = store.Invoices.find((r) => r.InvoiceID === id || r.InvoiceNumber === id);
+  if (!invoice) {
+    return send(res, 404, "The resource you're looking for cannot be found");
+  }
+  const sendable = invoice.Type === "ACCREC" && ["SUBMITTED", "AUTHORISED", "PAID"].includes(invoice.Status);
+
+  if (action === "Email" && method === "POST") {
+    if (!sendable) {
+      return validationFailure(res, [{ ValidationErrors: [{ Message: "Invoice cannot be emailed in its current status" }] }]);
+    }
+    // Like Xero, emailing marks the invoice as sent
+    invoice.SentToContact = true;
+    res.writeHead(204, { "Xero-Correlation-Id": randomUUID() });
+    return void res.end();
+  }
+  if (action === "OnlineInvoice" && method === "GET") {
+    return sendable
+      ? send(res, 200, { OnlineInvoices: [{ OnlineInvoiceUrl: `https://in.xero.com/${invoice.InvoiceID}` }] })
+      : validationFailure(res, [{ ValidationErrors: [{ Message: "Online invoices are only available for approved sales invoices" }] }]);
+  }
+  send(res, 405, `Method ${method} not supported by the fake server`);
+}
+
+async function handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+  const method = (req.method || "GET").toUpperCase();
+  const url = new URL(req.url || "/", `http://127.0.0.1:${port}`);
+  const rawBody = await readBody(req);
+
+  if (method === "POST" && url.pathname === "/connect/token") {
+    if (!req.headers.authorization?.startsWith("Basic ")) {
+      return send(res, 400, { error: "invalid_client" });
+    }
+    return send(res, 200, { access_token: FAKE_ACCESS_TOKEN, expires_in: 1800, token_type: "Bearer" });
+  }
+
+  if (req.headers.authorization !== `Bearer ${FAKE_ACCESS_TOKEN}`) {
+    return send(res, 401, { Type: null, Title: "Unauthorized", Status: 401, Detail: "AuthenticationUnsuccessful" });
+  }
+
+  const [resource, id, action, actionKey] = url.pathname.slice(API_PREFIX.length).split("/").filter(Boolean);
+
+  // Attachment uploads are raw file bytes, not JSON
+  if (url.pathname.startsWith(API_PREFIX) && action === "Attachments") {
+    const key = `${resource}/${id}`;
+    return handleAttachments(res, method, key, actionKey, url.searchParams, rawBody, req.headers["content-type"]);
+  }
+
+  let body: XeroRecord | undefined;
+  try {
+    body = rawBody.length > 0 ? JSON.parse(rawBody.toString("utf-8")) : undefined;
+  } catch {
+    return send(res, 400, { Message: "Invalid JSON body" });
+  }
+
+  const recording = replayRecording(method, url.toString(), body);
+  if (recording) {
+    return send(res, recording.response.status, recording.response.body as object, recording.response.headers);
+  }
+
+  if (method === "GET" && url.pathname === "/connections") {
+    return send(res, 200, connections);
+  }
+
+  if (!url.pathname.startsWith(API_PREFIX)) {
+    return send(res, 404, "Not found");
+  }
+
+  if (method === "GET" && resource === "Organisation" && !id) {
+    return organisation
+      ? send(res, 200, { Organisations: [organisation] })
+      : send(res, 404, "The resource you're looking for cannot be found");
+  }
+
+  if (resource === "Reports" && id) {
+    const report = loadFixture<XeroRecord | null>(join("reports", `${id}.json`), null);
+    return report
+      ? send(res, 200, { Reports: [report] })
+      : send(res, 404, "The resource you're looking for cannot be found");
+  }
+
+  if (method === "GET" && id && !action && /application\/pdf/.test(req.headers.accept || "")) {
+    return sendPdf(res, resource, id);
+  }
+
+  if (id && action === "History") {
+    return handleHistory(res, method, `${resource}/${id}`, body);
+  }
+
+  if (resource === "ContactGroups" && id && action === "Contacts") {
+    return handleGroupContacts(res, method, id, actionKey, body);
+  }
+
+  if (resource === "Invoices" && id && action) {
+    return handleInvoiceAction(res, method, id, action);
+  }
+
+  if (resource in COLLECTIONS) {
+    return handleCollection(res, method, resource, id, url.searchParams, body);
+  }
+
+  send(res, 404, "The resource you're looking for cannot be found");
+}
+
+const server = createServer((req, res) => {
+  handle(req, res).catch((error) => send(res, 500, { Message: String(error) }));
+});
+
+server.listen(port, "127.0.0.1", () => {
+  // --port 0 picks a free port; report the one actually bound
+  console.log(`Fake Xero server listening on http://127.0.0.1:${(server.address() as AddressInfo).port}`);
+});
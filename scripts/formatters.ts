@@ -0,0 +1,175 @@
+/**
+ * Output Formatters
+ *
+ * Renders command results as JSON, an aligned text table, CSV or NDJSON,
+ * optionally projected onto dotted field paths (e.g. "Contact.Name").
+ * Xero `/Date(...)/` values are converted to ISO dates along the way.
+ */
+
+import { isXeroDate, parseXeroDate } from "./dates.js";
+import { toCsv } from "./csv.js";
+import type { OutputFormat, TenantResult } from "./types.js";
+
+// Columns used for table/CSV output when --fields isn't given, keyed by the
+// field that identifies the entity type
+const DEFAULT_FIELDS: Array<[string, string[]]> = [
+  ["InvoiceID", ["InvoiceNumber", "Type", "Contact.Name", "Date", "DueDate", "Status", "Total", "AmountDue", "CurrencyCode"]],
+  ["CreditNoteID", ["CreditNoteNumber", "Type", "Contact.Name", "Date", "Status", "Total", "RemainingCredit", "CurrencyCode"]],
+  ["QuoteID", ["QuoteNumber", "Contact.Name", "Date", "ExpiryDate", "Status", "Total", "CurrencyCode"]],
+  ["OverpaymentID", ["OverpaymentID", "Type", "Contact.Name", "Date", "Status", "Total", "RemainingCredit"]],
+  ["PrepaymentID", ["PrepaymentID", "Type", "Contact.Name", "Date", "Status", "Total", "RemainingCredit"]],
+  ["BankTransactionID", ["Date", "Type", "Contact.Name", "BankAccount.Name", "Reference", "Status", "Total", "IsReconciled"]],
+  ["PaymentID", ["Date", "Invoice.InvoiceNumber", "Reference", "Amount", "PaymentType", "Status", "IsReconciled"]],
+  ["ContactID", ["Name", "ContactNumber", "EmailAddress", "ContactStatus", "IsCustomer", "IsSupplier"]],
+  ["AccountID", ["Code", "Name", "Type", "Class", "Status", "TaxType"]],
+  ["ItemID", ["Code", "Name", "SalesDetails.UnitPrice", "PurchaseDetails.UnitPrice", "QuantityOnHand"]],
+  ["ContactGroupID", ["Name", "Status"]],
+  ["TaxType", ["TaxType", "Name", "EffectiveRate", "Status"]],
+];
+
+/**
+ * Convert a Xero date to ISO: date-only at midnight UTC, full timestamp otherwise
+ */
+function toIsoDate(value: string): string {
+  const date = parseXeroDate(value);
+  if (!date) {
+    return value;
+  }
+  const iso = date.toISOString();
+  return iso.endsWith("T00:00:00.000Z") ? iso.slice(0, 10) : iso;
+}
+
+/**
+ * Recursively replace `/Date(...)/` strings with ISO dates
+ */
+export function normaliseDates<T>(value: T): T {
+  if (isXeroDate(value)) {
+    return toIsoDate(value) as T;
+  }
+  if (Array.isArray(value)) {
+    return value.map(normaliseDates) as T;
+  }
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, inner]) => [key, normaliseDates(inner)])
+    ) as T;
+  }
+  return value;
+}
+
+/**
+ * Read a dotted path ("Contact.Name") from a record
+ */
+export function getField(record: unknown, path: string): unknown {
+  return path.split(".").reduce<unknown>(
+    (value, key) => (value && typeof value === "object" ? (value as Record<string, unknown>)[key] : undefined),
+    record
+  );
+}
+
+/**
+ * Pick the default columns for a list of records
+ */
+function defaultFields(records: Array<Record<string, unknown>>): string[] {
+  const sample = records[0] || {};
+  const known = DEFAULT_FIELDS.find(([idField]) => idField in sample);
+  if (known) {
+    return known[1];
+  }
+  // Unknown shape: every scalar top-level field
+  return Object.keys(sample).filter((key) => sample[key] === null || typeof sample[key] !== "object");
+}
+
+function toRecords(data: unknown): Array<Record<string, unknown>> {
+  if (Array.isArray(data)) {
+    return data as Array<Record<string, unknown>>;
+  }
+  return data && typeof data === "object" ? [data as Record<string, unknown>] : [{ value: data }];
+}
+
+function renderTable(rows: Array<Record<string, unknown>>, columns: string[]): string {
+  const cell = (value: unknown) =>
+    value === undefined || value === null ? "" : typeof value === "object" ? JSON.stringify(value) : String(value);
+  const widths = columns.map((column) =>
+    Math.max(column.length, ...rows.map((row) => cell(row[column]).length))
+  );
+  const line = (values: string[]) => values.map((v, i) => v.padEnd(widths[i])).join("  ").trimEnd();
+
+  return [
+    line(columns),
+    line(widths.map((w) => "-".repeat(w))),
+    ...rows.map((row) => line(columns.map((column) => cell(row[column])))),
+  ].join("\n");
+}
+
+/**
+ * Format a command result.
+ *
+ * @param data - Command result (array of records or a single record)
+ * @param options.format - json | table | csv | ndjson
+ * @param options.fields - Dotted field paths to project onto (keeps all fields for json if omitted)
+ * @returns Objects for json, otherwise the rendered text
+ */
+export function formatOutput(data: unknown, options: { format: OutputFormat; fields?: string[] }): unknown {
+  const normalised = normaliseDates(data);
+  const fields = options.fields?.length ? options.fields : undefined;
+
+  if (options.format === "json") {
+    if (!fields) {
+      return normalised;
+    }
+    const projected = toRecords(normalised).map((record) =>
+      Object.fromEntries(fields.map((field) => [field, getField(record, field)]))
+    );
+    return Array.isArray(normalised) ? projected : projected[0];
+  }
+
+  const records = toRecords(normalised);
+  const columns = fields || defaultFields(records);
+  const rows = records.map((record) =>
+    Object.fromEntries(columns.map((column) => [column, getField(record, column)]))
+  );
+
+  switch (options.format) {
+    case "csv":
+      return toCsv(rows, columns);
+    case "ndjson":
+      // NDJSON keeps whole records unless fields were requested
+      return (fields ? rows : records).map((row) => JSON.stringify(row)).join("\n");
+    case "table":
+      return renderTable(rows, columns);
+  }
+}
+
+/**
+ * Format fan-out results keyed by organisation. JSON keeps that shape with
+ * each organisation's result formatted; table, CSV and NDJSON get one row per
+ * record with an Organisation column first. Organisations that failed have
+ * no rows - report them separately.
+ *
+ * @param results - forEachTenant results
+ * @param options - As for formatOutput
+ */
+export function formatTenantResults(
+  results: Record<string, TenantResult<unknown>>,
+  options: { format: OutputFormat; fields?: string[] }
+): unknown {
+  if (options.format === "json") {
+    return Object.fromEntries(
+      Object.entries(results).map(([organisation, r]) => [
+        organisation,
+        r.ok ? { ...r, result: formatOutput(r.result, options) } : r,
+      ])
+    );
+  }
+
+  const rows = Object.entries(results).flatMap(([organisation, r]) =>
+    r.ok ? toRecords(normaliseDates(r.result)).map((record) => ({ Organisation: organisation, ...record })) : []
+  );
+  const requested = options.fields?.length ? options.fields : undefined;
+  // NDJSON keeps whole records unless fields were requested
+  const fields = !requested && options.format === "ndjson"
+    ? undefined
+    : ["Organisation", ...(requested || defaultFields(rows)).filter((field) => field !== "Organisation")];
+  return formatOutput(rows, { format: options.format, fields });
+}
@@ -0,0 +1,41 @@
+/**
+ * Record History
+ *
+ * Endpoints that keep a history (audit trail) and accept notes, and the note
+ * the CLI leaves on records it changes when given `--note`.
+ */
+
+import type { HistoryEntity } from "./types.js";
+
+/** Xero rejects longer history notes */
+export const MAX_NOTE_LENGTH = 2500;
+
+// API collection for each entity with a history
+export const HISTORY_ENDPOINTS: Record<HistoryEntity, string> = {
+  invoice: "Invoices",
+  contact: "Contacts",
+  creditnote: "CreditNotes",
+  payment: "Payments",
+  banktransaction: "BankTransactions",
+  quote: "Quotes",
+  repeatinginvoice: "RepeatingInvoices",
+};
+
+// ID field of the records each history collection returns
+export const HISTORY_ID_FIELDS: Record<string, string> = {
+  Invoices: "InvoiceID",
+  Contacts: "ContactID",
+  CreditNotes: "CreditNoteID",
+  Payments: "PaymentID",
+  BankTransactions: "BankTransactionID",
+  Quotes: "QuoteID",
+  RepeatingInvoices: "RepeatingInvoiceID",
+};
+
+/**
+ * History note recording that a change came from this CLI, and why
+ */
+export function changeNote(reason: string): string {
+  const note = `Changed via xero-accounting-manager CLI: ${reason.trim()}`;
+  return note.length > MAX_NOTE_LENGTH ? `${note.slice(0, MAX_NOTE_LENGTH - 3)}...` : note;
+}
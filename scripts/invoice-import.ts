@@ -0,0 +1,201 @@
+/**
+ * Invoice Import
+ *
+ * Turns import rows (from a CSV file with a header row) into invoices. Each
+ * row is one line item; rows with the same InvoiceNumber form one invoice.
+ * Invoice fields (Contact, Type, Date, DueDate, Reference, CurrencyCode,
+ * LineAmountTypes, Status, BrandingThemeID) come from the first row of the
+ * invoice; later rows may leave them blank or repeat the same value. The
+ * remaining columns are line item fields (see line-items.ts), except an
+ * Error column, which is ignored.
+ *
+ * InvoiceNumber is required: it is how a re-run recognises invoices that
+ * were already imported.
+ */
+
+import { toLineItem } from "./line-items.js";
+import type { ImportRowResult, InvoiceImport } from "./types.js";
+
+type InvoiceField =
+  | "invoiceNumber"
+  | "contactName"
+  | "type"
+  | "date"
+  | "dueDate"
+  | "reference"
+  | "currencyCode"
+  | "lineAmountTypes"
+  | "status"
+  | "brandingThemeId";
+
+// Accepted spellings for invoice columns, after lowercasing and dropping - _ and spaces
+const INVOICE_FIELD_ALIASES: Record<InvoiceField, string[]> = {
+  invoiceNumber: ["invoicenumber", "invoiceno", "number"],
+  contactName: ["contact", "contactname", "contactid", "customer", "supplier"],
+  type: ["type", "invoicetype"],
+  date: ["date", "invoicedate"],
+  dueDate: ["duedate"],
+  reference: ["reference", "ref"],
+  currencyCode: ["currencycode", "currency"],
+  lineAmountTypes: ["lineamounttypes", "amounttypes"],
+  status: ["status"],
+  brandingThemeId: ["brandingthemeid", "brandingtheme"],
+};
+
+// Allowed values, matched case-insensitively
+const ALLOWED_VALUES: Partial<Record<InvoiceField, string[]>> = {
+  type: ["ACCREC", "ACCPAY"],
+  lineAmountTypes: ["Exclusive", "Inclusive", "NoTax"],
+  status: ["DRAFT", "SUBMITTED", "AUTHORISED"],
+};
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Added by import-invoices --failed-out; ignored so that file can be fixed and re-imported
+const REPORT_COLUMN = "error";
+
+function invoiceField(column: string): InvoiceField | undefined {
+  const key = column.toLowerCase().replace(/[\s_-]/g, "");
+  return (Object.keys(INVOICE_FIELD_ALIASES) as InvoiceField[]).find((field) =>
+    INVOICE_FIELD_ALIASES[field].includes(key)
+  );
+}
+
+/**
+ * Invoice fields of one row, normalised, plus any problems with them
+ */
+function readInvoiceFields(row: Record<string, string>): {
+  fields: Partial<Record<InvoiceField, string>>;
+  columns: Partial<Record<InvoiceField, string>>;
+  line: Record<string, string>;
+  errors: string[];
+} {
+  const fields: Partial<Record<InvoiceField, string>> = {};
+  const columns: Partial<Record<InvoiceField, string>> = {};
+  const line: Record<string, string> = {};
+  const errors: string[] = [];
+
+  for (const [column, raw] of Object.entries(row)) {
+    if (column.trim().toLowerCase() === REPORT_COLUMN) {
+      continue;
+    }
+    const field = invoiceField(column);
+    if (!field) {
+      line[column] = raw;
+      continue;
+    }
+    const value = raw.trim();
+    if (!value) {
+      continue;
+    }
+    columns[field] = column;
+
+    const allowed = ALLOWED_VALUES[field];
+    if (allowed) {
+      const match = allowed.find((option) => option.toLowerCase() === value.toLowerCase());
+      if (!match) {
+        errors.push(`${column} must be one of ${allowed.join(", ")}, got "${value}"`);
+        continue;
+      }
+      fields[field] = match;
+    } else if ((field === "date" || field === "dueDate") && !DATE_PATTERN.test(value)) {
+      errors.push(`${column} must be YYYY-MM-DD, got "${value}"`);
+    } else if (field === "currencyCode" && !/^[A-Za-z]{3}$/.test(value)) {
+      errors.push(`${column} must be a 3-letter currency code, got "${value}"`);
+    } else {
+      fields[field] = field === "currencyCode" ? value.toUpperCase() : value;
+    }
+  }
+  return { fields, columns, line, errors };
+}
+
+/**
+ * Group import rows into invoices.
+ *
+ * An invoice with any invalid row is not imported; its other rows are
+ * reported as failed too, pointing at the rows to fix.
+ *
+ * @param rows - Rows keyed by column name (see parseCsv)
+ * @returns Invoices ready to validate against Xero, and failures for every row not in one
+ */
+export function groupInvoiceRows(rows: Array<Record<string, string>>): {
+  invoices: InvoiceImport[];
+  failures: ImportRowResult[];
+} {
+  const groups = new Map<
+    string,
+    { rows: number[]; fields: Partial<Record<InvoiceField, string>>; lineItems: InvoiceImport["lineItems"] }
+  >();
+  const rowErrors = new Map<number, string[]>();
+  const failures: ImportRowResult[] = [];
+
+  rows.forEach((raw, index) => {
+    const row = index + 1;
+    const { fields, columns, line, errors } = readInvoiceFields(raw);
+    const invoiceNumber = fields.invoiceNumber;
+    if (!invoiceNumber) {
+      failures.push({ row, status: "failed", errors: ["InvoiceNumber is required", ...errors] });
+      return;
+    }
+
+    const group = groups.get(invoiceNumber) || { rows: [], fields: {}, lineItems: [] };
+    groups.set(invoiceNumber, group);
+    group.rows.push(row);
+
+    for (const [field, value] of Object.entries(fields) as Array<[InvoiceField, string]>) {
+      const current = group.fields[field];
+      if (current === undefined) {
+        group.fields[field] = value;
+      } else if (current !== value) {
+        errors.push(`${columns[field]} "${value}" differs from "${current}" on an earlier row of invoice ${invoiceNumber}`);
+      }
+    }
+
+    try {
+      group.lineItems.push(toLineItem(line, `row ${row}`));
+    } catch (e) {
+      errors.push((e as Error).message.replace(/^row \d+: /, ""));
+    }
+    if (errors.length > 0) {
+      rowErrors.set(row, errors);
+    }
+  });
+
+  const invoices: InvoiceImport[] = [];
+  for (const [invoiceNumber, group] of groups) {
+    if (!group.fields.contactName) {
+      const first = group.rows[0];
+      rowErrors.set(first, [...(rowErrors.get(first) || []), "Contact is required"]);
+    }
+
+    const badRows = group.rows.filter((row) => rowErrors.has(row));
+    if (badRows.length > 0) {
+      for (const row of group.rows) {
+        failures.push({
+          row,
+          invoiceNumber,
+          status: "failed",
+          errors: rowErrors.get(row) || [`Not imported: fix row(s) ${badRows.join(", ")} of invoice ${invoiceNumber}`],
+        });
+      }
+      continue;
+    }
+
+    const { fields } = group;
+    invoices.push({
+      invoiceNumber,
+      rows: group.rows,
+      contactName: fields.contactName!,
+      lineItems: group.lineItems,
+      type: fields.type as InvoiceImport["type"],
+      date: fields.date,
+      dueDate: fields.dueDate,
+      reference: fields.reference,
+      currencyCode: fields.currencyCode,
+      lineAmountTypes: fields.lineAmountTypes as InvoiceImport["lineAmountTypes"],
+      status: fields.status as InvoiceImport["status"],
+      brandingThemeId: fields.brandingThemeId,
+    });
+  }
+  return { invoices, failures };
+}
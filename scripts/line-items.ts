@@ -0,0 +1,158 @@
+/**
+ * Line Item Input
+ *
+ * Parses invoice line items from a JSON or CSV file (`--lines`) and from
+ * `--line` specs of `key=value` pairs separated by `;`:
+ *
+ *   description=Consulting;quantity=2;unitAmount=150;accountCode=200;tracking=Region:North|Team:Ops
+ *
+ * Field names are case-insensitive and may use camelCase, snake_case or
+ * Xero's PascalCase. Tracking is `Category:Option` pairs separated by `|`
+ * (or an array of { name, option } in JSON).
+ */
+
+import { readFileSync } from "fs";
+import { extname } from "path";
+import { parseCsv } from "./csv.js";
+import type { LineItemInput } from "./types.js";
+
+// Accepted spellings for each field, after lowercasing and dropping - _ and spaces
+const FIELD_ALIASES: Record<keyof LineItemInput, string[]> = {
+  description: ["description", "desc"],
+  quantity: ["quantity", "qty"],
+  unitAmount: ["unitamount", "unitprice", "price", "amount"],
+  accountCode: ["accountcode", "account"],
+  itemCode: ["itemcode", "item"],
+  taxType: ["taxtype", "tax"],
+  discountRate: ["discountrate", "discount"],
+  tracking: ["tracking"],
+};
+
+function normaliseKey(key: string): string {
+  return key.toLowerCase().replace(/[\s_-]/g, "");
+}
+
+function parseNumber(value: unknown, field: string, source: string): number | undefined {
+  if (value === undefined || value === null || value === "") {
+    return undefined;
+  }
+  const number = typeof value === "number" ? value : Number(String(value).trim());
+  if (!Number.isFinite(number)) {
+    throw new Error(`${source}: ${field} must be a number, got "${value}"`);
+  }
+  return number;
+}
+
+function parseTracking(value: unknown, source: string): LineItemInput["tracking"] {
+  if (value === undefined || value === null || value === "") {
+    return undefined;
+  }
+  if (Array.isArray(value)) {
+    return value.map((entry) => {
+      const name = entry?.name ?? entry?.Name;
+      const option = entry?.option ?? entry?.Option;
+      if (!name || !option) {
+        throw new Error(`${source}: tracking entries need a name and option`);
+      }
+      return { name: String(name), option: String(option) };
+    });
+  }
+  return String(value)
+    .split("|")
+    .filter((pair) => pair.trim())
+    .map((pair) => {
+      const separator = pair.indexOf(":");
+      if (separator <= 0 || separator === pair.length - 1) {
+        throw new Error(`${source}: tracking must be Category:Option pairs separated by "|", got "${pair}"`);
+      }
+      return { name: pair.slice(0, separator).trim(), option: pair.slice(separator + 1).trim() };
+    });
+}
+
+/**
+ * Convert a loosely keyed record (JSON object, CSV row or --line spec) to a line item
+ *
+ * @param raw - Field values keyed by any accepted spelling
+ * @param source - Where the line came from, used in error messages
+ */
+export function toLineItem(raw: Record<string, unknown>, source: string): LineItemInput {
+  const values: Partial<Record<keyof LineItemInput, unknown>> = {};
+  for (const [key, value] of Object.entries(raw)) {
+    const field = (Object.keys(FIELD_ALIASES) as Array<keyof LineItemInput>).find((name) =>
+      FIELD_ALIASES[name].includes(normaliseKey(key))
+    );
+    if (!field) {
+      throw new Error(`${source}: unknown line item field "${key}"`);
+    }
+    values[field] = value;
+  }
+
+  const text = (value: unknown) => (value === undefined || value === null || value === "" ? undefined : String(value).trim());
+  const unitAmount = parseNumber(values.unitAmount, "unitAmount", source);
+  if (unitAmount === undefined) {
+    throw new Error(`${source}: unitAmount is required`);
+  }
+  const discountRate = parseNumber(values.discountRate, "discountRate", source);
+  if (discountRate !== undefined && (discountRate < 0 || discountRate > 100)) {
+    throw new Error(`${source}: discountRate must be between 0 and 100`);
+  }
+
+  const item: LineItemInput = {
+    description: text(values.description),
+    quantity: parseNumber(values.quantity, "quantity", source) ?? 1,
+    unitAmount,
+    accountCode: text(values.accountCode),
+    itemCode: text(values.itemCode),
+    taxType: text(values.taxType),
+    discountRate,
+    tracking: parseTracking(values.tracking, source),
+  };
+  if (!item.description && !item.itemCode) {
+    throw new Error(`${source}: a description or itemCode is required`);
+  }
+  return item;
+}
+
+/**
+ * Parse a --line spec: `key=value` pairs separated by `;` (use `\;` for a literal semicolon)
+ */
+export function parseLineSpec(spec: string, source = "--line"): LineItemInput {
+  const raw: Record<string, string> = {};
+  for (const part of spec.split(/(?<!\\);/)) {
+    if (!part.trim()) {
+      continue;
+    }
+    const separator = part.indexOf("=");
+    if (separator <= 0) {
+      throw new Error(`${source}: expected key=value, got "${part.trim()}"`);
+    }
+    raw[part.slice(0, separator).trim()] = part.slice(separator + 1).replace(/\\;/g, ";").trim();
+  }
+  return toLineItem(raw, source);
+}
+
+/**
+ * Read line items from a JSON file (array, or an object with lineItems/LineItems)
+ * or a CSV file with a header row
+ */
+export function loadLineItems(path: string): LineItemInput[] {
+  const content = readFileSync(path, "utf-8");
+  const extension = extname(path).toLowerCase();
+  const isJson = extension === ".json" || (extension !== ".csv" && /^\s*[[{]/.test(content));
+
+  let rows: Array<Record<string, unknown>>;
+  if (isJson) {
+    const parsed = JSON.parse(content);
+    rows = Array.isArray(parsed) ? parsed : parsed?.lineItems ?? parsed?.LineItems;
+    if (!Array.isArray(rows)) {
+      throw new Error(`${path}: expected an array of line items`);
+    }
+  } else {
+    rows = parseCsv(content);
+  }
+
+  if (rows.length === 0) {
+    throw new Error(`${path}: no line items found`);
+  }
+  return rows.map((row, i) => toLineItem(row, `${path} row ${i + 1}`));
+}
@@ -0,0 +1,100 @@
+/**
+ * Repeating Invoice Schedules
+ *
+ * Works out the invoice dates (and due dates) a repeating invoice schedule
+ * produces. All arithmetic is on UTC calendar days; results are YYYY-MM-DD.
+ *
+ * Monthly schedules keep the next scheduled date's day of month, falling
+ * back to the last day of shorter months (31 Jan -> 28 Feb -> 31 Mar), as
+ * Xero does.
+ */
+
+import { parseXeroDate } from "./dates.js";
+import type { Schedule } from "./types.js";
+
+export interface ScheduledInvoice {
+  date: string;
+  dueDate?: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function toDay(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+}
+
+/**
+ * The given day of a month, clamped to the month's length
+ */
+function dayOfMonth(year: number, month: number, day: number): Date {
+  const normalised = new Date(Date.UTC(year, month, 1));
+  const y = normalised.getUTCFullYear();
+  const m = normalised.getUTCMonth();
+  return new Date(Date.UTC(y, m, Math.min(day, daysInMonth(y, m))));
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getTime() + days * DAY_MS);
+}
+
+/**
+ * Due date for an invoice raised on `date` under the schedule's due-date rule
+ */
+export function dueDateFor(date: Date, schedule: Pick<Schedule, "DueDate" | "DueDateType">): Date | null {
+  const value = schedule.DueDate ?? 0;
+  const year = date.getUTCFullYear();
+  const month = date.getUTCMonth();
+
+  switch (schedule.DueDateType) {
+    case "DAYSAFTERBILLDATE":
+      return addDays(date, value);
+    case "DAYSAFTERBILLMONTH":
+      return addDays(dayOfMonth(year, month, 31), value);
+    case "OFCURRENTMONTH":
+      return dayOfMonth(year, month, value);
+    case "OFFOLLOWINGMONTH":
+      return dayOfMonth(year, month + 1, value);
+    default:
+      return null;
+  }
+}
+
+/**
+ * Invoice dates a schedule will generate, from its next scheduled date
+ * (or start date) up to and including `until`, stopping at EndDate.
+ *
+ * @param schedule - Xero schedule (dates may be `/Date(...)/` or ISO)
+ * @param until - Last date to include
+ * @returns Invoice dates with due dates, earliest first
+ */
+export function projectSchedule(schedule: Schedule, until: Date): ScheduledInvoice[] {
+  const first = parseXeroDate(schedule.NextScheduledDate) || parseXeroDate(schedule.StartDate);
+  if (!first || !schedule.Period || schedule.Period < 1) {
+    return [];
+  }
+  const end = parseXeroDate(schedule.EndDate);
+  const last = end && end < until ? end : until;
+  // Monthly schedules stay on the next date's day (it may have been moved
+  // since the start), unless that date was clamped to a short month's end
+  const startDay = parseXeroDate(schedule.StartDate)?.getUTCDate() ?? 0;
+  const clamped = first.getUTCDate() === daysInMonth(first.getUTCFullYear(), first.getUTCMonth());
+  const anchorDay = clamped && startDay > first.getUTCDate() ? startDay : first.getUTCDate();
+
+  const occurrences: ScheduledInvoice[] = [];
+  for (let n = 0; ; n++) {
+    // Each occurrence is computed from the anchor so clamped days don't drift
+    const date = schedule.Unit === "WEEKLY"
+      ? addDays(first, n * schedule.Period * 7)
+      : dayOfMonth(first.getUTCFullYear(), first.getUTCMonth() + n * schedule.Period, anchorDay);
+    if (date > last) {
+      break;
+    }
+    const dueDate = dueDateFor(date, schedule);
+    occurrences.push({ date: toDay(date), ...(dueDate ? { dueDate: toDay(dueDate) } : {}) });
+  }
+  return occurrences;
+}
@@ -0,0 +1,60 @@
+/**
+ * Name Similarity
+ *
+ * Fuzzy matching for contact names: normalises case, punctuation and
+ * common company suffixes, then scores with Levenshtein distance.
+ */
+
+// Dropped when comparing so "Acme Ltd" and "ACME Limited" are equal
+const COMPANY_SUFFIXES = new Set([
+  "co", "company", "corp", "corporation", "inc", "incorporated", "llc", "llp",
+  "lp", "ltd", "limited", "plc", "pty", "pte", "gmbh", "sa", "bv",
+]);
+
+/**
+ * Lowercase, strip accents and punctuation, drop company suffixes and "the"
+ */
+export function normaliseName(name: string): string {
+  return name
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/&/g, " and ")
+    .replace(/[^a-z0-9]+/g, " ")
+    .split(" ")
+    .filter((word) => word && word !== "the" && !COMPANY_SUFFIXES.has(word))
+    .join(" ");
+}
+
+/**
+ * Edit distance between two strings
+ */
+export function levenshtein(a: string, b: string): number {
+  if (a === b) return 0;
+  if (!a.length) return b.length;
+  if (!b.length) return a.length;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Similarity of two names from 0 (unrelated) to 1 (same after normalising)
+ */
+export function nameSimilarity(a: string, b: string): number {
+  const left = normaliseName(a);
+  const right = normaliseName(b);
+  if (!left || !right) {
+    return 0;
+  }
+  const longest = Math.max(left.length, right.length);
+  return 1 - levenshtein(left, right) / longest;
+}
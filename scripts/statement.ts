@@ -0,0 +1,302 @@
+/**
+ * Contact Statements
+ *
+ * Builds a customer statement from the contact's sales documents: a dated
+ * ledger with opening balance and running balance, plus ageing of what is
+ * outstanding at the end date. Invoices and refunds are debits; payments,
+ * credit notes, overpayments and prepayments are credits. Allocating credit
+ * to an invoice moves no money, so it only shows in the ageing.
+ *
+ * Amounts are in the documents' own currency; callers pick one currency
+ * when the contact trades in several.
+ */
+
+import { parseXeroDate } from "./dates.js";
+import { toCsv } from "./csv.js";
+import type {
+  Allocation,
+  Contact,
+  ContactStatement,
+  CreditNote,
+  Invoice,
+  Overpayment,
+  Payment,
+  Prepayment,
+  StatementAgeing,
+  StatementLine,
+  StatementLineType,
+} from "./types.js";
+
+export interface StatementSources {
+  invoices: Invoice[];
+  creditNotes: CreditNote[];
+  payments: Payment[];
+  overpayments: Overpayment[];
+  prepayments: Prepayment[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Same-day entries: charges before the money that settles them
+const LINE_ORDER: StatementLineType[] = ["invoice", "refund", "creditnote", "overpayment", "prepayment", "payment"];
+
+// Only approved documents carry a balance
+const POSTED_STATUSES = new Set(["AUTHORISED", "PAID"]);
+
+function toDay(value: string | undefined): string | undefined {
+  return parseXeroDate(value)?.toISOString().slice(0, 10);
+}
+
+function round(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Currencies used by a contact's documents (empty codes ignored)
+ */
+export function statementCurrencies(sources: StatementSources): string[] {
+  const documents = [...sources.invoices, ...sources.creditNotes, ...sources.overpayments, ...sources.prepayments];
+  return [...new Set(documents.map((d) => d.CurrencyCode).filter((c): c is string => !!c))].sort();
+}
+
+/**
+ * Build a statement for one contact.
+ *
+ * @param contact - The contact the documents belong to
+ * @param sources - The contact's sales invoices, credit notes, payments, overpayments and prepayments
+ * @param options.fromDate - First day of the ledger (YYYY-MM-DD); earlier entries form the opening balance
+ * @param options.toDate - Last day of the ledger; later entries are ignored
+ * @param options.currencyCode - Only documents in this currency
+ */
+export function buildStatement(
+  contact: Contact,
+  sources: StatementSources,
+  options: { fromDate: string; toDate: string; currencyCode?: string }
+): ContactStatement {
+  const { fromDate, toDate, currencyCode } = options;
+  const inCurrency = (document: { CurrencyCode?: string }) =>
+    !currencyCode || !document.CurrencyCode || document.CurrencyCode === currencyCode;
+  const posted = <T extends { Status?: string; CurrencyCode?: string }>(documents: T[]) =>
+    documents.filter((d) => POSTED_STATUSES.has(d.Status || "") && inCurrency(d));
+
+  const invoices = posted(sources.invoices.filter((i) => i.Type === "ACCREC"));
+  const creditNotes = posted(sources.creditNotes.filter((c) => c.Type === "ACCRECCREDIT"));
+  const overpayments = posted(sources.overpayments.filter((o) => o.Type === "RECEIVE-OVERPAYMENT"));
+  const prepayments = posted(sources.prepayments.filter((p) => p.Type === "RECEIVE-PREPAYMENT"));
+  const invoiceIds = new Set(invoices.map((i) => i.InvoiceID));
+  const live = (payments: Payment[] | undefined) => (payments || []).filter((p) => p.Status !== "DELETED");
+  const payments = live(sources.payments).filter((p) => p.Invoice && invoiceIds.has(p.Invoice.InvoiceID));
+
+  type Entry = Omit<StatementLine, "balance">;
+  const entries: Entry[] = [];
+  const add = (entry: Omit<Entry, "debit" | "credit">, amount: number) => {
+    if (entry.date && amount) {
+      const debit = entry.type === "invoice" || entry.type === "refund";
+      entries.push({ ...entry, debit: debit ? round(amount) : 0, credit: debit ? 0 : round(amount) });
+    }
+  };
+
+  for (const invoice of invoices) {
+    add({
+      date: toDay(invoice.Date)!,
+      type: "invoice",
+      reference: invoice.InvoiceNumber || invoice.InvoiceID,
+      description: invoice.Reference,
+      dueDate: toDay(invoice.DueDate),
+    }, invoice.Total ?? 0);
+  }
+  for (const payment of payments) {
+    add({
+      date: toDay(payment.Date)!,
+      type: "payment",
+      reference: payment.Invoice!.InvoiceNumber || payment.Invoice!.InvoiceID,
+      description: payment.Reference,
+    }, payment.Amount ?? 0);
+  }
+
+  const credits: Array<{ type: StatementLineType; reference: string; document: CreditNote | Overpayment | Prepayment }> = [
+    ...creditNotes.map((c) => ({ type: "creditnote" as const, reference: c.CreditNoteNumber || c.CreditNoteID, document: c })),
+    ...overpayments.map((o) => ({ type: "overpayment" as const, reference: o.OverpaymentID, document: o })),
+    ...prepayments.map((p) => ({ type: "prepayment" as const, reference: p.PrepaymentID, document: p })),
+  ];
+  for (const { type, reference, document } of credits) {
+    add({ date: toDay(document.Date)!, type, reference, description: document.Reference }, document.Total ?? 0);
+    for (const refund of live(document.Payments)) {
+      add({ date: toDay(refund.Date)!, type: "refund", reference, description: refund.Reference }, refund.Amount ?? 0);
+    }
+  }
+
+  entries.sort((a, b) => a.date.localeCompare(b.date) || LINE_ORDER.indexOf(a.type) - LINE_ORDER.indexOf(b.type));
+
+  let balance = 0;
+  const lines: StatementLine[] = [];
+  let openingBalance = 0;
+  for (const entry of entries.filter((e) => e.date <= toDate)) {
+    balance = round(balance + entry.debit - entry.credit);
+    if (entry.date < fromDate) {
+      openingBalance = balance;
+    } else {
+      lines.push({ ...entry, balance });
+    }
+  }
+
+  return {
+    contact: { ContactID: contact.ContactID, Name: contact.Name, EmailAddress: contact.EmailAddress },
+    fromDate,
+    toDate,
+    currencyCode: currencyCode || statementCurrencies(sources)[0],
+    openingBalance,
+    closingBalance: balance,
+    lines,
+    ageing: ageing(invoices, payments, credits.map((c) => c.document), toDate),
+  };
+}
+
+/**
+ * Outstanding invoices by days overdue at `asAt`, and credit not yet applied
+ */
+function ageing(
+  invoices: Invoice[],
+  payments: Payment[],
+  credits: Array<CreditNote | Overpayment | Prepayment>,
+  asAt: string
+): StatementAgeing {
+  const buckets: StatementAgeing = {
+    current: 0,
+    overdue1To30: 0,
+    overdue31To60: 0,
+    overdue61To90: 0,
+    overdueOver90: 0,
+    unappliedCredit: 0,
+  };
+  const byAsAt = (date: string | undefined) => !!toDay(date) && toDay(date)! <= asAt;
+  const allocations: Allocation[] = credits.flatMap((c) => (c.Allocations || []).filter((a) => byAsAt(a.Date)));
+
+  for (const invoice of invoices.filter((i) => byAsAt(i.Date))) {
+    const settled = [
+      ...payments.filter((p) => p.Invoice!.InvoiceID === invoice.InvoiceID && byAsAt(p.Date)),
+      ...allocations.filter((a) => a.Invoice?.InvoiceID === invoice.InvoiceID),
+    ].reduce((sum, item) => sum + (item.Amount ?? 0), 0);
+    const outstanding = round((invoice.Total ?? 0) - settled);
+    if (outstanding <= 0) {
+      continue;
+    }
+    const due = toDay(invoice.DueDate) || toDay(invoice.Date)!;
+    const overdue = Math.floor((Date.parse(asAt) - Date.parse(due)) / DAY_MS);
+    const bucket: keyof StatementAgeing =
+      overdue <= 0 ? "current"
+        : overdue <= 30 ? "overdue1To30"
+          : overdue <= 60 ? "overdue31To60"
+            : overdue <= 90 ? "overdue61To90"
+              : "overdueOver90";
+    buckets[bucket] = round(buckets[bucket] + outstanding);
+  }
+
+  for (const credit of credits.filter((c) => byAsAt(c.Date))) {
+    const used = [
+      ...(credit.Allocations || []).filter((a) => byAsAt(a.Date)),
+      ...(credit.Payments || []).filter((p) => p.Status !== "DELETED" && byAsAt(p.Date)),
+    ].reduce((sum, item) => sum + (item.Amount ?? 0), 0);
+    buckets.unappliedCredit = round(buckets.unappliedCredit + Math.max(0, (credit.Total ?? 0) - used));
+  }
+  return buckets;
+}
+
+const CSV_COLUMNS = ["Date", "Type", "Reference", "Description", "DueDate", "Debit", "Credit", "Balance"];
+
+/**
+ * The ledger as CSV, between opening and closing balance rows
+ */
+export function renderStatementCsv(statement: ContactStatement): string {
+  const row = (line: Partial<StatementLine>) => ({
+    Date: line.date,
+    Type: line.type,
+    Reference: line.reference,
+    Description: line.description,
+    DueDate: line.dueDate,
+    Debit: line.debit || undefined,
+    Credit: line.credit || undefined,
+    Balance: line.balance?.toFixed(2),
+  });
+  return toCsv([
+    row({ date: statement.fromDate, reference: "Opening balance", balance: statement.openingBalance }),
+    ...statement.lines.map(row),
+    row({ date: statement.toDate, reference: "Closing balance", balance: statement.closingBalance }),
+  ], CSV_COLUMNS);
+}
+
+function escapeHtml(value: unknown): string {
+  return String(value ?? "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+const LINE_LABELS: Record<StatementLineType, string> = {
+  invoice: "Invoice",
+  creditnote: "Credit note",
+  payment: "Payment",
+  overpayment: "Overpayment",
+  prepayment: "Prepayment",
+  refund: "Refund",
+};
+
+/**
+ * A self-contained HTML page, laid out for printing on A4
+ */
+export function renderStatementHtml(statement: ContactStatement): string {
+  const money = (amount: number | undefined) => (amount ? amount.toFixed(2) : "");
+  const currency = statement.currencyCode ? ` (${escapeHtml(statement.currencyCode)})` : "";
+  const { ageing: a } = statement;
+  const rows = statement.lines.map((line) => `      <tr>
+        <td>${line.date}</td><td>${LINE_LABELS[line.type]}</td><td>${escapeHtml(line.reference)}</td>
+        <td>${escapeHtml(line.description)}</td><td>${line.dueDate || ""}</td>
+        <td class="num">${money(line.debit)}</td><td class="num">${money(line.credit)}</td><td class="num">${line.balance.toFixed(2)}</td>
+      </tr>`);
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <title>Statement - ${escapeHtml(statement.contact.Name)}</title>
+  <style>
+    @page { size: A4; margin: 15mm; }
+    body { font-family: Helvetica, Arial, sans-serif; font-size: 10pt; color: #222; }
+    h1 { font-size: 16pt; margin: 0 0 4pt; }
+    table { width: 100%; border-collapse: collapse; margin-top: 12pt; }
+    th, td { padding: 4pt 6pt; border-bottom: 1px solid #ddd; text-align: left; vertical-align: top; }
+    th { background: #f3f3f3; }
+    .num { text-align: right; white-space: nowrap; }
+    .total td { font-weight: bold; border-top: 2px solid #222; }
+    thead { display: table-header-group; }
+    tr { page-break-inside: avoid; }
+  </style>
+</head>
+<body>
+  <h1>Statement${currency}</h1>
+  <p>${statement.organisation ? `From <strong>${escapeHtml(statement.organisation)}</strong><br>` : ""}To <strong>${escapeHtml(statement.contact.Name)}</strong><br>
+  ${statement.fromDate} to ${statement.toDate}</p>
+  <table>
+    <thead>
+      <tr><th>Date</th><th>Type</th><th>Reference</th><th>Description</th><th>Due</th><th class="num">Debit</th><th class="num">Credit</th><th class="num">Balance</th></tr>
+    </thead>
+    <tbody>
+      <tr><td>${statement.fromDate}</td><td colspan="6">Opening balance</td><td class="num">${statement.openingBalance.toFixed(2)}</td></tr>
+${rows.join("\n")}
+      <tr class="total"><td>${statement.toDate}</td><td colspan="6">Balance due</td><td class="num">${statement.closingBalance.toFixed(2)}</td></tr>
+    </tbody>
+  </table>
+  <table>
+    <thead>
+      <tr><th class="num">Current</th><th class="num">1-30 days</th><th class="num">31-60 days</th><th class="num">61-90 days</th><th class="num">Over 90 days</th><th class="num">Unapplied credit</th></tr>
+    </thead>
+    <tbody>
+      <tr>${[a.current, a.overdue1To30, a.overdue31To60, a.overdue61To90, a.overdueOver90, a.unappliedCredit]
+        .map((amount) => `<td class="num">${amount.toFixed(2)}</td>`).join("")}</tr>
+    </tbody>
+  </table>
+</body>
+</html>
+`;
+}
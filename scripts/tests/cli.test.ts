@@ -0,0 +1,171 @@
+import { after, before, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { existsSync, mkdtempSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { cliAvailable, cliFor, cliUnavailableReason, json, startFakeServer } from "./helpers.js";
+import type { FakeServer } from "./helpers.js";
+
+if (!cliAvailable) {
+  if (process.env.CI) {
+    test("cli tests can run", () => assert.fail(cliUnavailableReason));
+  } else {
+    console.warn(`Skipping CLI tests: ${cliUnavailableReason}`);
+  }
+}
+
+describe("cli against the fake server", { skip: !cliAvailable && cliUnavailableReason }, () => {
+  let server: FakeServer;
+
+  before(async () => {
+    server = await startFakeServer();
+  });
+  after(() => server.stop());
+
+  test("list-invoices applies --where", () => {
+    const cli = cliFor(server);
+    const invoices = json<Array<{ Status: string }>>(cli("list-invoices", "--where", 'Status=="AUTHORISED"'));
+    assert.ok(invoices.length > 0);
+    assert.ok(invoices.every((invoice) => invoice.Status === "AUTHORISED"));
+  });
+
+  test("--format csv prints the CSV itself, not a JSON string", () => {
+    const cli = cliFor(server);
+    const result = cli("list-invoices", "--format", "csv", "--fields", "InvoiceNumber,Status");
+    assert.equal(result.status, 0);
+    assert.match(result.stdout, /^InvoiceNumber,Status\nINV-0001,AUTHORISED\n/);
+  });
+
+  test("an unsupported --where fails instead of listing everything", () => {
+    const cli = cliFor(server);
+    const result = cli("list-contacts", "--where", 'Name.Contains("ACME")');
+    assert.notEqual(result.status, 0);
+  });
+
+  test("re-running an identical create returns the first record", () => {
+    const cli = cliFor(server);
+    const first = json(cli("create-contact", "--name", "Replay Test Ltd"));
+    const second = cli("create-contact", "--name", "Replay Test Ltd");
+    assert.equal(json(second).ContactID, first.ContactID);
+    assert.match(second.stderr, /not sent again/);
+  });
+
+  test("repeated identical updates are all sent", () => {
+    const cli = cliFor(server);
+    const { ContactID } = json(cli("create-contact", "--name", "Rename Test Ltd"));
+    for (const name of ["Rename Test A", "Rename Test B", "Rename Test A"]) {
+      const result = cli("update-contact", "--id", ContactID, "--name", name);
+      assert.doesNotMatch(result.stderr, /not sent again/);
+    }
+    assert.equal(json(cli("get-contact", "--id", ContactID)).Name, "Rename Test A");
+  });
+
+  test("email-invoice sends again when re-run and marks the invoice sent", () => {
+    const cli = cliFor(server);
+    for (let run = 0; run < 2; run++) {
+      const result = cli("email-invoice", "--id", "INV-0001");
+      assert.equal(json(result).SentToContact, true);
+      assert.doesNotMatch(result.stderr, /not sent again/);
+    }
+    const { invoices } = json<{ invoices: Array<{ InvoiceNumber: string }> }>(cli("email-invoice", "--unsent"));
+    assert.ok(!invoices.some((invoice) => invoice.InvoiceNumber === "INV-0001"));
+  });
+
+  test("import-invoices only skips a bill number already used by the same supplier", () => {
+    const cli = cliFor(server);
+    const dir = mkdtempSync(join(tmpdir(), "xero-import-test-"));
+    const importBill = (supplier: string) => {
+      const file = join(dir, `${supplier}.csv`);
+      writeFileSync(file, `InvoiceNumber,Type,Contact,Description,UnitAmount,AccountCode\nSUP-100,ACCPAY,${supplier},Paper,40,429\n`);
+      return json(cli("import-invoices", "--file", file)).summary;
+    };
+
+    assert.equal(importBill("Office Supplies Ltd").created, 1);
+    assert.equal(importBill("ACME Corp").created, 1);
+    assert.equal(importBill("ACME Corp").skipped, 1);
+  });
+
+  test("import-invoices re-run with the same key reports each row against its own invoice", () => {
+    const cli = cliFor(server);
+    const file = join(mkdtempSync(join(tmpdir(), "xero-import-test-")), "invoices.csv");
+    writeFileSync(file, [
+      "InvoiceNumber,Type,Contact,Description,UnitAmount,AccountCode",
+      "IMP-200,ACCREC,ACME Corp,Consulting,100,200",
+      "IMP-201,ACCREC,ACME Corp,Refund,-50,200",
+      "",
+    ].join("\n"));
+    const rows = () => json<{ rows: Array<{ invoiceNumber: string; status: string; invoiceId?: string }> }>(
+      cli("import-invoices", "--file", file, "--idempotency-key", "import-rerun")
+    ).rows.map(({ invoiceNumber, status, invoiceId }) => ({ invoiceNumber, status, hasId: !!invoiceId }));
+
+    assert.deepEqual(rows(), [
+      { invoiceNumber: "IMP-200", status: "created", hasId: true },
+      { invoiceNumber: "IMP-201", status: "failed", hasId: false },
+    ]);
+    // IMP-200 now exists; the bad row alone replays a batch that only created IMP-200
+    assert.deepEqual(rows(), [
+      { invoiceNumber: "IMP-200", status: "skipped", hasId: true },
+      { invoiceNumber: "IMP-201", status: "failed", hasId: false },
+    ]);
+  });
+
+  test("contact group add -> remove -> add is sent every time, whatever the ID's case", () => {
+    const cli = cliFor(server);
+    const id = "9A3C7D42-6F1E-4B0A-8D2F-1C5E7B9A0D13";
+    const change = (command: string) => {
+      const result = cli(command, "--group", "Wholesale", "--ids", id);
+      assert.doesNotMatch(result.stderr, /not sent again/);
+      const { changed, skipped } = json(result);
+      return { changed: changed.length, skipped: skipped.length };
+    };
+    const members = () =>
+      json<Array<{ ContactID: string }>>(cli("list-contact-group-members", "--group", "Wholesale"))
+        .map((c) => c.ContactID.toLowerCase());
+
+    assert.deepEqual(change("add-to-contact-group"), { changed: 1, skipped: 0 });
+    assert.deepEqual(change("add-to-contact-group"), { changed: 0, skipped: 1 });
+    assert.deepEqual(change("remove-from-contact-group"), { changed: 1, skipped: 0 });
+    assert.ok(!members().includes(id.toLowerCase()));
+    assert.deepEqual(change("add-to-contact-group"), { changed: 1, skipped: 0 });
+    assert.ok(members().includes(id.toLowerCase()));
+  });
+
+  test("archive -> unarchive -> archive changes the status every time", () => {
+    const cli = cliFor(server);
+    const { ContactID } = json(cli("create-contact", "--name", "Archive Round Trip Ltd"));
+    const status = () => json(cli("get-contact", "--id", ContactID)).ContactStatus;
+
+    // The same explicit key on every run must not replay the earlier status change
+    const key = ["--idempotency-key", "archive-round-trip"];
+    assert.equal(json(cli("archive-contact", "--id", ContactID, ...key)).contact.ContactStatus, "ARCHIVED");
+    assert.equal(json(cli("unarchive-contact", "--id", ContactID, ...key)).ContactStatus, "ACTIVE");
+    const again = cli("archive-contact", "--id", ContactID, ...key);
+    assert.doesNotMatch(again.stderr, /not sent again/);
+    assert.equal(json(again).contact.ContactStatus, "ARCHIVED");
+    assert.equal(status(), "ARCHIVED");
+  });
+
+  test("get-contact-statement prints CSV and HTML as-is", () => {
+    const cli = cliFor(server);
+    const statement = (output: string) =>
+      cli("get-contact-statement", "--id", "5b96e86b-418e-48e8-8949-308c14aec278",
+        "--from-date", "2024-01-01", "--to-date", "2024-12-31", "--output", output);
+
+    const csv = statement("csv");
+    assert.equal(csv.status, 0);
+    assert.match(csv.stdout, /^Date,Type,Reference,Description,DueDate,Debit,Credit,Balance\n2024-01-01,,Opening balance,/);
+    const html = statement("html");
+    assert.equal(html.status, 0);
+    assert.match(html.stdout, /^<!DOCTYPE html>/i);
+    assert.match(html.stdout, /From <strong>Demo Company \(Global\)<\/strong>/);
+  });
+
+  test("sync against the fake server leaves the real sync state alone", () => {
+    const cli = cliFor(server);
+    assert.equal(cli("sync", "--entity", "contacts").status, 0);
+    const stateDir = join(cli.home, ".cache", "xero-accounting-manager");
+    assert.ok(!existsSync(join(stateDir, "sync-state.json")));
+    const host = new URL(server.baseUrl).host.replace(/[^\w.-]/g, "_");
+    assert.ok(existsSync(join(stateDir, "hosts", host, "sync-state.json")));
+  });
+});
@@ -0,0 +1,37 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { loadContactJson } from "../contact-input.js";
+
+const contactFile = (doc: unknown) => {
+  const file = join(mkdtempSync(join(tmpdir(), "xero-contact-test-")), "contact.json");
+  writeFileSync(file, JSON.stringify(doc));
+  return file;
+};
+
+describe("loadContactJson", () => {
+  test("accepts a get-contact result as a template", () => {
+    const options = loadContactJson(contactFile({
+      Contacts: [{
+        ContactID: "5b96e86b-418e-48e8-8949-308c14aec278",
+        ContactStatus: "ACTIVE",
+        Name: "ACME Corp",
+        EmailAddress: "accounts@acme.example",
+        SkypeUserName: "acme",
+        ContactPersons: [{ FirstName: "Ann", EmailAddress: "ann@acme.example" }],
+        BrandingTheme: { BrandingThemeID: "dfe23d27-a3a6-4ef3-a5ca-b9e02b142dde" },
+        SalesTrackingCategories: [{ TrackingCategoryName: "Region", TrackingOptionName: "North" }],
+        PurchasesTrackingCategories: [],
+        TrackingCategoryName: "Region",
+        TrackingCategoryOption: "North",
+      }],
+    }));
+    assert.deepEqual(options, { name: "ACME Corp", email: "accounts@acme.example" });
+  });
+
+  test("rejects fields Xero doesn't have", () => {
+    assert.throws(() => loadContactJson(contactFile({ Name: "ACME Corp", Email: "x@acme.example" })), /unknown contact field\(s\) Email/);
+  });
+});
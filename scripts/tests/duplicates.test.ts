@@ -0,0 +1,74 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { clusterDuplicateContacts } from "../duplicates.js";
+import type { Contact } from "../types.js";
+
+let nextId = 0;
+const contact = (fields: Partial<Contact>): Contact =>
+  ({ ContactID: `c${++nextId}`, ContactStatus: "ACTIVE", Name: "", ...fields }) as Contact;
+const names = (clusters: ReturnType<typeof clusterDuplicateContacts>) =>
+  clusters.map((cluster) => cluster.contacts.map((c) => c.Name).sort());
+const signals = (clusters: ReturnType<typeof clusterDuplicateContacts>) =>
+  clusters.flatMap((cluster) => cluster.reasons.map((reason) => reason.signal)).sort();
+
+describe("clusterDuplicateContacts", () => {
+  test("links similar names", () => {
+    const clusters = clusterDuplicateContacts([
+      contact({ Name: "ACME Corp" }),
+      contact({ Name: "Acme Corporation Ltd" }),
+      contact({ Name: "Globex" }),
+    ]);
+    assert.deepEqual(names(clusters), [["ACME Corp", "Acme Corporation Ltd"]]);
+  });
+
+  test("links the same email, tax number or phone despite different names", () => {
+    const clusters = clusterDuplicateContacts([
+      contact({ Name: "Paper Co", EmailAddress: "Accounts@Paper.example" }),
+      contact({ Name: "Smith Stationery", EmailAddress: "accounts@paper.example" }),
+      contact({ Name: "North Ltd", TaxNumber: "12-345-678" }),
+      contact({ Name: "Harbour Trading", TaxNumber: "12345678" }),
+      contact({ Name: "Blue Cafe", Phones: [{ PhoneType: "DEFAULT", PhoneAreaCode: "09", PhoneNumber: "123 4567" }] }),
+      contact({ Name: "Green Grocer", Phones: [{ PhoneType: "MOBILE", PhoneNumber: "+64 9 123 4567" }] }),
+    ]);
+    assert.deepEqual(names(clusters).sort(), [
+      ["Blue Cafe", "Green Grocer"],
+      ["Harbour Trading", "North Ltd"],
+      ["Paper Co", "Smith Stationery"],
+    ]);
+  });
+
+  test("chains pairs into one cluster", () => {
+    const clusters = clusterDuplicateContacts([
+      contact({ Name: "Widgets Ltd", EmailAddress: "a@widgets.example" }),
+      contact({ Name: "Widgets Limited", TaxNumber: "99-888-777" }),
+      contact({ Name: "W Holdings", TaxNumber: "99888777" }),
+    ]);
+    assert.deepEqual(names(clusters), [["W Holdings", "Widgets Limited", "Widgets Ltd"]]);
+  });
+
+  test("a shared company domain alone doesn't link contacts", () => {
+    const clusters = clusterDuplicateContacts([
+      contact({ Name: "Alice Brown", EmailAddress: "alice@bigfirm.example" }),
+      contact({ Name: "Carol Davis", EmailAddress: "carol@bigfirm.example" }),
+    ]);
+    assert.deepEqual(clusters, []);
+  });
+
+  test("a shared company domain supports another match", () => {
+    const clusters = clusterDuplicateContacts([
+      contact({ Name: "Bigfirm Ltd", EmailAddress: "accounts@bigfirm.example" }),
+      contact({ Name: "Bigfirm Limited", EmailAddress: "billing@bigfirm.example" }),
+      contact({ Name: "Carol Davis", EmailAddress: "carol@bigfirm.example" }),
+    ]);
+    assert.deepEqual(names(clusters), [["Bigfirm Limited", "Bigfirm Ltd"]]);
+    assert.deepEqual(signals(clusters), ["emailDomain", "name"]);
+  });
+
+  test("ignores public email domains", () => {
+    const clusters = clusterDuplicateContacts([
+      contact({ Name: "Bob Jones Plumbing", EmailAddress: "bob@gmail.com" }),
+      contact({ Name: "Bob Jones Plumbing Ltd", EmailAddress: "robert@gmail.com" }),
+    ]);
+    assert.deepEqual(signals(clusters), ["name"]);
+  });
+});
@@ -0,0 +1,58 @@
+import { after, before, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { startFakeServer } from "./helpers.js";
+import type { FakeServer } from "./helpers.js";
+
+describe("fake server where filter", () => {
+  let server: FakeServer;
+  const get = (path: string, where: string) =>
+    fetch(`${server.baseUrl}/api.xro/2.0${path}?${new URLSearchParams({ where })}`, {
+      headers: { Authorization: "Bearer fake-access-token" },
+    });
+
+  before(async () => {
+    server = await startFakeServer();
+  });
+  after(() => server.stop());
+
+  test("applies string and number comparisons", async () => {
+    const response = await get("/Invoices", 'Status=="AUTHORISED" AND AmountDue>0');
+    assert.equal(response.status, 200);
+    const { Invoices } = await response.json();
+    assert.ok(Invoices.length > 0);
+    for (const invoice of Invoices) {
+      assert.equal(invoice.Status, "AUTHORISED");
+      assert.ok(invoice.AmountDue > 0);
+    }
+  });
+
+  test("doesn't compare values of different types", async () => {
+    const response = await get("/Invoices", 'AmountDue>"0"');
+    assert.deepEqual((await response.json()).Invoices, []);
+  });
+
+  test("rejects clauses it can't evaluate", async () => {
+    const response = await get("/Contacts", 'Name.Contains("ACME")');
+    assert.equal(response.status, 400);
+    assert.equal((await response.json()).Type, "QueryParseException");
+  });
+});
+
+describe("fake server organisation", () => {
+  let server: FakeServer;
+
+  before(async () => {
+    server = await startFakeServer();
+  });
+  after(() => server.stop());
+
+  test("serves the organisation fixture", async () => {
+    const response = await fetch(`${server.baseUrl}/api.xro/2.0/Organisation`, {
+      headers: { Authorization: "Bearer fake-access-token" },
+    });
+    assert.equal(response.status, 200);
+    const { Organisations } = await response.json();
+    assert.equal(Organisations.length, 1);
+    assert.equal(Organisations[0].Name, "Demo Company (Global)");
+  });
+});
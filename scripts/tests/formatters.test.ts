@@ -0,0 +1,23 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { formatTenantResults } from "../formatters.js";
+import type { TenantResult } from "../types.js";
+
+const results: Record<string, TenantResult<unknown>> = {
+  "Org A": { tenantId: "a", ok: true, result: [{ InvoiceID: "1", InvoiceNumber: "INV-1", Total: 5 }] },
+  "Org B": { tenantId: "b", ok: true, result: [{ InvoiceID: "2", InvoiceNumber: "INV-9", Total: 7 }] },
+  "Org C": { tenantId: "c", ok: false, error: { message: "offline" } },
+};
+
+describe("formatTenantResults", () => {
+  test("combines organisations into one CSV with an Organisation column", () => {
+    const csv = formatTenantResults(results, { format: "csv", fields: ["InvoiceNumber", "Total"] });
+    assert.equal(csv, "Organisation,InvoiceNumber,Total\nOrg A,INV-1,5\nOrg B,INV-9,7");
+  });
+
+  test("projects each organisation's JSON result and keeps failures", () => {
+    const json = formatTenantResults(results, { format: "json", fields: ["InvoiceNumber"] }) as Record<string, any>;
+    assert.deepEqual(json["Org A"].result, [{ InvoiceNumber: "INV-1" }]);
+    assert.deepEqual(json["Org C"], results["Org C"]);
+  });
+});
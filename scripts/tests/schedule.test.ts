@@ -0,0 +1,30 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { projectSchedule } from "../schedule.js";
+import type { Schedule } from "../types.js";
+
+const monthly = (schedule: Omit<Schedule, "Unit" | "Period">): Schedule => ({ Unit: "MONTHLY", Period: 1, ...schedule });
+const dates = (schedule: Schedule, until: string) =>
+  projectSchedule(schedule, new Date(`${until}T00:00:00Z`)).map((occurrence) => occurrence.date);
+
+describe("projectSchedule", () => {
+  test("follows the next scheduled date's day when it differs from the start", () => {
+    const schedule = monthly({ StartDate: "2024-01-15", NextScheduledDate: "2024-02-20" });
+    assert.deepEqual(dates(schedule, "2024-04-30"), ["2024-02-20", "2024-03-20", "2024-04-20"]);
+  });
+
+  test("returns to the start date's day after a clamped month end", () => {
+    const schedule = monthly({ StartDate: "2024-01-31", NextScheduledDate: "2024-02-29" });
+    assert.deepEqual(dates(schedule, "2024-04-30"), ["2024-02-29", "2024-03-31", "2024-04-30"]);
+  });
+
+  test("keeps a month-end next date that wasn't clamped", () => {
+    const schedule = monthly({ StartDate: "2024-01-10", NextScheduledDate: "2024-02-29" });
+    assert.deepEqual(dates(schedule, "2024-03-31"), ["2024-02-29", "2024-03-29"]);
+  });
+
+  test("stops at the end date", () => {
+    const schedule = monthly({ StartDate: "2024-01-15", EndDate: "2024-02-15" });
+    assert.deepEqual(dates(schedule, "2024-12-31"), ["2024-01-15", "2024-02-15"]);
+  });
+});
@@ -0,0 +1,209 @@
+/**
+ * HTTP Transport
+ *
+ * XeroClient sends every HTTP call (token, connections, API) through a
+ * fetch-compatible transport so it can be pointed at the local fake server
+ * or wrapped to record real responses as replayable fixtures.
+ *
+ * Environment:
+ * - XERO_BASE_URL: send all traffic to this host (e.g. http://127.0.0.1:4010)
+ * - XERO_RECORD_DIR: save each exchange, secrets redacted, to this directory
+ */
+
+import { createHash } from "crypto";
+import { existsSync, mkdirSync, writeFileSync } from "fs";
+import { join } from "path";
+
+export type Transport = (url: string, init: RequestInit) => Promise<Response>;
+
+export interface XeroEndpoints {
+  identityUrl: string;
+  apiBaseUrl: string;
+  connectionsUrl: string;
+}
+
+export const XERO_ENDPOINTS: XeroEndpoints = {
+  identityUrl: "https://identity.xero.com/connect/token",
+  apiBaseUrl: "https://api.xero.com/api.xro/2.0",
+  connectionsUrl: "https://api.xero.com/connections",
+};
+
+export const fetchTransport: Transport = (url, init) => fetch(url, init);
+
+/**
+ * Endpoints for a single host serving Xero's paths (the fake server layout)
+ */
+export function endpointsForBaseUrl(baseUrl: string): XeroEndpoints {
+  const base = baseUrl.replace(/\/+$/, "");
+  return {
+    identityUrl: `${base}/connect/token`,
+    apiBaseUrl: `${base}/api.xro/2.0`,
+    connectionsUrl: `${base}/connections`,
+  };
+}
+
+// ==================== Recording ====================
+
+export interface RecordedExchange {
+  request: {
+    method: string;
+    path: string;
+    query: string;
+    body?: unknown;
+  };
+  response: {
+    status: number;
+    headers: Record<string, string>;
+    body: unknown;
+  };
+}
+
+const REDACTED = "REDACTED";
+const SECRET_KEY_PATTERN = /^(access_token|refresh_token|id_token|client_secret|password|authorization)$/i;
+const RECORDED_RESPONSE_HEADERS = [
+  "content-type",
+  "retry-after",
+  "x-minlimit-remaining",
+  "x-daylimit-remaining",
+  "x-appminlimit-remaining",
+  "x-rate-limit-problem",
+];
+
+/**
+ * Replace secret values (tokens, credentials) anywhere in a JSON document
+ */
+export function redactSecrets(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(redactSecrets);
+  }
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, inner]) => [
+        key,
+        SECRET_KEY_PATTERN.test(key) ? REDACTED : redactSecrets(inner),
+      ])
+    );
+  }
+  return value;
+}
+
+/**
+ * Stable file name for an exchange; the fake server uses the same scheme to look recordings up
+ */
+export function recordingFileName(method: string, path: string, query: string, body?: unknown): string {
+  const slug = path.replace(/^\/+/, "").replace(/[^A-Za-z0-9-]+/g, "_") || "root";
+  const hash = createHash("sha256")
+    .update(`${query}\n${body === undefined ? "" : JSON.stringify(body)}`)
+    .digest("hex")
+    .slice(0, 12);
+  return `${method.toUpperCase()}_${slug}_${hash}.json`;
+}
+
+/**
+ * Normalise a request URL to the path/query pair used for recordings.
+ * API paths are stored relative to the host, so recordings made against
+ * api.xero.com replay from the fake server unchanged.
+ */
+export function recordingKey(url: string): { path: string; query: string } {
+  const parsed = new URL(url);
+  const params = new URLSearchParams(parsed.search);
+  params.sort();
+  return { path: parsed.pathname, query: params.toString() };
+}
+
+function parseBody(text: string): unknown {
+  if (!text) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+/**
+ * Wrap a transport so every exchange is written to `dir` as a fixture.
+ *
+ * Authorization headers are never stored, token/secret fields are redacted,
+ * and tenant IDs are replaced with a placeholder. Binary responses are skipped.
+ */
+export function createRecordingTransport(inner: Transport, dir: string): Transport {
+  const tenantIds = new Set<string>();
+
+  const scrubTenants = (text: string): string => {
+    let result = text;
+    for (const id of tenantIds) {
+      result = result.split(id).join("00000000-0000-0000-0000-000000000000");
+    }
+    return result;
+  };
+
+  return async (url, init) => {
+    const headers = new Headers(init.headers);
+    const tenantId = headers.get("Xero-Tenant-Id");
+    if (tenantId) {
+      tenantIds.add(tenantId);
+    }
+
+    const response = await inner(url, init);
+    const contentType = response.headers.get("content-type") || "";
+    if (contentType && !/json|text/i.test(contentType)) {
+      return response;
+    }
+
+    const text = await response.clone().text();
+    const body = parseBody(text);
+
+    // Learn tenant IDs from /connections so they are scrubbed everywhere
+    if (Array.isArray(body)) {
+      for (const entry of body) {
+        if (entry && typeof entry.tenantId === "string") {
+          tenantIds.add(entry.tenantId);
+        }
+      }
+    }
+
+    const method = (init.method || "GET").toUpperCase();
+    const { path, query } = recordingKey(url);
+    const requestBody = typeof init.body === "string" ? parseBody(init.body) : undefined;
+    const exchange: RecordedExchange = {
+      request: { method, path, query, body: redactSecrets(requestBody) },
+      response: {
+        status: response.status,
+        headers: Object.fromEntries(
+          RECORDED_RESPONSE_HEADERS.flatMap((name) => {
+            const value = response.headers.get(name);
+            return value === null ? [] : [[name, value]];
+          })
+        ),
+        body: redactSecrets(body),
+      },
+    };
+
+    if (!existsSync(dir)) {
+      mkdirSync(dir, { recursive: true });
+    }
+    // Request bodies are hashed before tenant scrubbing so replay lookups match
+    writeFileSync(
+      join(dir, recordingFileName(method, path, query, exchange.request.body)),
+      scrubTenants(JSON.stringify(exchange, null, 2)),
+      "utf-8"
+    );
+
+    return response;
+  };
+}
+
+/**
+ * Transport and endpoints implied by XERO_BASE_URL / XERO_RECORD_DIR
+ */
+export function transportFromEnv(): { transport: Transport; endpoints: XeroEndpoints } {
+  const baseUrl = process.env.XERO_BASE_URL;
+  const recordDir = process.env.XERO_RECORD_DIR;
+
+  return {
+    transport: recordDir ? createRecordingTransport(fetchTransport, recordDir) : fetchTransport,
+    endpoints: baseUrl ? endpointsForBaseUrl(baseUrl) : XERO_ENDPOINTS,
+  };
+}
@@ -10,6 +10,21 @@
 export interface XeroConfig {
   clientId: string;
   clientSecret: string;
+  /** Retry budget for throttled (429) and transient (5xx) responses. Default: 3 */
+  maxRetries?: number;
+  /** Concurrent requests allowed per tenant. Default: 5 (Xero's limit) */
+  maxConcurrentRequests?: number;
+  /** Short names for organisations: alias -> tenant ID or organisation name */
+  tenantAliases?: Record<string, string>;
+  /** Per-organisation defaults keyed by tenant ID, organisation name or alias */
+  tenantSettings?: Record<string, TenantSettings>;
+}
+
+export interface TenantSettings {
+  /** Account code for sales (ACCREC) lines without an account or item code */
+  defaultSalesAccountCode?: string;
+  /** Account code for purchase (ACCPAY) lines without an account or item code */
+  defaultPurchasesAccountCode?: string;
 }
 
 export interface ConfigFile {
@@ -40,6 +55,15 @@ export interface TokenResponse {
   error_description?: string;
 }
 
+// ==================== Rate Limits ====================
+
+export interface RateLimitStatus {
+  minuteRemaining?: number;
+  dayRemaining?: number;
+  appMinuteRemaining?: number;
+  updatedAt: string;
+}
+
 // ==================== Connections ====================
 
 export interface XeroConnection {
@@ -52,6 +76,10 @@ export interface XeroConnection {
   updatedDateUtc: string;
 }
 
+export type TenantResult<T> =
+  | { tenantId: string; ok: true; result: T }
+  | { tenantId: string; ok: false; error: Record<string, unknown> };
+
 // ==================== Contact ====================
 
 export interface Contact {
@@ -121,6 +149,16 @@ export interface ContactGroup {
   Contacts?: Contact[];
 }
 
+/** Outcome of adding contacts to, or removing them from, a contact group */
+export interface ContactGroupMembershipResult {
+  ContactGroupID: string;
+  Name: string;
+  /** Contacts added or removed */
+  changed: Array<Pick<Contact, "ContactID" | "Name">>;
+  /** Already members (when adding) or not members (when removing) */
+  skipped: Array<Pick<Contact, "ContactID" | "Name">>;
+}
+
 export interface ContactBalances {
   AccountsReceivable?: Balance;
   AccountsPayable?: Balance;
@@ -131,6 +169,65 @@ export interface Balance {
   Overdue?: number;
 }
 
+/** A contact reference (ID, number, email or name) resolved to one contact */
+export interface ContactMatch {
+  contact: Contact;
+  matchedBy: "id" | "number" | "email" | "name";
+}
+
+/** Near-match offered when a contact reference doesn't resolve */
+export interface ContactCandidate {
+  ContactID: string;
+  Name: string;
+  ContactNumber?: string;
+  EmailAddress?: string;
+  /** Name similarity from 0 to 1 */
+  score: number;
+}
+
+/** What archive-contact would do, and the money still open against the contact */
+export interface ContactArchivePlan {
+  contact: Contact;
+  /** Unpaid invoices and bills and unapplied credit; empty when nothing is open */
+  openItems: string[];
+}
+
+/** Why two contacts were grouped as likely duplicates */
+export interface DuplicateReason {
+  signal: "name" | "email" | "emailDomain" | "taxNumber" | "phone";
+  /** The normalised value they share (for "name", the names compared) */
+  value: string;
+}
+
+/** Invoice and bill activity for a contact */
+export interface ContactActivity {
+  invoices: number;
+  bills: number;
+  /** Outstanding on sales invoices */
+  receivable: number;
+  /** Outstanding on bills */
+  payable: number;
+  lastTransactionDate?: string;
+}
+
+export interface DuplicateContact extends ContactActivity {
+  ContactID: string;
+  Name: string;
+  ContactStatus: Contact["ContactStatus"];
+  EmailAddress?: string;
+  TaxNumber?: string;
+  suggestion: "keep" | "archive";
+  /** What to do before archiving (e.g. open balances to move) */
+  notes: string[];
+}
+
+export interface DuplicateContactCluster {
+  reasons: DuplicateReason[];
+  /** ContactID of the suggested record to keep */
+  keep: string;
+  contacts: DuplicateContact[];
+}
+
 // ==================== Invoice ====================
 
 export interface Invoice {
@@ -201,6 +298,89 @@ export interface LineItem {
   RepeatingInvoiceID?: string;
 }
 
+export interface OnlineInvoice {
+  OnlineInvoiceUrl?: string;
+}
+
+export interface EmailInvoiceResult {
+  InvoiceID: string;
+  InvoiceNumber?: string;
+  Contact?: string;
+  Status?: string;
+  /** As read back after sending; absent if the invoice couldn't be re-read */
+  SentToContact?: boolean;
+}
+
+export type InvoiceUpdateStatus = "DRAFT" | "SUBMITTED" | "AUTHORISED";
+
+/** What void-invoice / delete-invoice would do, and what blocks it */
+export interface InvoiceCancellationPlan {
+  action: "void" | "delete";
+  invoice: Invoice;
+  /** Things to reverse first; empty when the action can proceed */
+  blockers: string[];
+}
+
+// ==================== Repeating Invoice ====================
+
+export type ScheduleUnit = "WEEKLY" | "MONTHLY";
+
+export type DueDateType =
+  | "DAYSAFTERBILLDATE"
+  | "DAYSAFTERBILLMONTH"
+  | "OFCURRENTMONTH"
+  | "OFFOLLOWINGMONTH";
+
+export interface Schedule {
+  /** Generate every `Period` units, e.g. Period 3 + MONTHLY = quarterly */
+  Period: number;
+  Unit: ScheduleUnit;
+  /** Days (or day of month, depending on DueDateType) */
+  DueDate?: number;
+  DueDateType?: DueDateType;
+  StartDate?: string;
+  NextScheduledDate?: string;
+  NextScheduledDateString?: string;
+  EndDate?: string;
+}
+
+export interface RepeatingInvoice {
+  RepeatingInvoiceID: string;
+  ID?: string;
+  Type: "ACCREC" | "ACCPAY";
+  Contact: ContactRef;
+  Schedule: Schedule;
+  LineItems?: LineItem[];
+  LineAmountTypes?: "Exclusive" | "Inclusive" | "NoTax";
+  Reference?: string;
+  BrandingThemeID?: string;
+  CurrencyCode?: string;
+  /** DRAFT templates generate draft invoices; AUTHORISED ones approved invoices */
+  Status: "DRAFT" | "AUTHORISED" | "DELETED";
+  SubTotal?: number;
+  TotalTax?: number;
+  Total?: number;
+  HasAttachments?: boolean;
+  ApprovedForSending?: boolean;
+  SendCopy?: boolean;
+  MarkAsSent?: boolean;
+  IncludePDF?: boolean;
+  ValidationErrors?: ValidationError[];
+}
+
+/** An invoice a repeating template is expected to generate */
+export interface ProjectedInvoice {
+  RepeatingInvoiceID: string;
+  Type: "ACCREC" | "ACCPAY";
+  Contact?: string;
+  Reference?: string;
+  Date: string;
+  DueDate?: string;
+  Total?: number;
+  CurrencyCode?: string;
+  Status: RepeatingInvoice["Status"];
+}
+
 // ==================== Payment ====================
 
 export interface Payment {
@@ -332,6 +512,8 @@ export interface CreditNote {
   CurrencyRate?: number;
   FullyPaidOnDate?: string;
   RemainingCredit?: number;
+  /** Amount allocated to the invoice, when listed on an invoice */
+  AppliedAmount?: number;
   Allocations?: Allocation[];
   Payments?: Payment[];
   BrandingThemeID?: string;
@@ -588,6 +770,50 @@ export interface ReportAttribute {
   Id?: string;
 }
 
+// ==================== Statement ====================
+
+export type StatementLineType = "invoice" | "creditnote" | "payment" | "overpayment" | "prepayment" | "refund";
+
+/** One ledger entry on a contact statement */
+export interface StatementLine {
+  /** YYYY-MM-DD */
+  date: string;
+  type: StatementLineType;
+  /** Document number, or ID when it has none */
+  reference: string;
+  description?: string;
+  dueDate?: string;
+  /** Increases what the contact owes */
+  debit: number;
+  /** Reduces what the contact owes */
+  credit: number;
+  /** Running balance after this line */
+  balance: number;
+}
+
+/** Outstanding invoices by days overdue, as at the statement's end date */
+export interface StatementAgeing {
+  current: number;
+  overdue1To30: number;
+  overdue31To60: number;
+  overdue61To90: number;
+  overdueOver90: number;
+  /** Credit notes, overpayments and prepayments not yet applied */
+  unappliedCredit: number;
+}
+
+export interface ContactStatement {
+  organisation?: string;
+  contact: { ContactID: string; Name: string; EmailAddress?: string };
+  fromDate: string;
+  toDate: string;
+  currencyCode?: string;
+  openingBalance: number;
+  closingBalance: number;
+  lines: StatementLine[];
+  ageing: StatementAgeing;
+}
+
 // ==================== Quotes ====================
 
 export interface Quote {
@@ -640,6 +866,41 @@ export interface TrackingOption {
   Status?: "ACTIVE" | "ARCHIVED" | "DELETED";
 }
 
+// ==================== Attachments ====================
+
+export type AttachmentEntity = "invoice" | "bill" | "creditnote" | "banktransaction" | "contact" | "manualjournal";
+
+export interface Attachment {
+  AttachmentID: string;
+  FileName: string;
+  Url?: string;
+  MimeType: string;
+  ContentLength?: number;
+  /** Shown to the customer on the online invoice */
+  IncludeOnline?: boolean;
+}
+
+// ==================== History ====================
+
+export type HistoryEntity =
+  | "invoice"
+  | "contact"
+  | "creditnote"
+  | "payment"
+  | "banktransaction"
+  | "quote"
+  | "repeatinginvoice";
+
+export interface HistoryRecord {
+  /** Kind of change, e.g. "Created", "Approved", "Note" */
+  Changes?: string;
+  DateUTCString?: string;
+  DateUTC?: string;
+  /** Name of the user (or app) that made the change */
+  User?: string;
+  Details?: string;
+}
+
 // ==================== Branding Theme ====================
 
 export interface BrandingTheme {
@@ -667,6 +928,17 @@ export interface ValidationError {
   Message?: string;
 }
 
+export interface XeroErrorResponse {
+  ErrorNumber?: number;
+  Type?: string;
+  Message?: string;
+  Elements?: Array<{ ValidationErrors?: ValidationError[]; [key: string]: unknown }>;
+  // Problem-details style errors (auth failures)
+  Title?: string;
+  Detail?: string;
+  Status?: number;
+}
+
 // ==================== API Response Wrappers ====================
 
 export interface XeroResponse<T> {
@@ -680,6 +952,18 @@ export interface InvoicesResponse extends XeroResponse<Invoice> {
   Invoices: Invoice[];
 }
 
+export interface AttachmentsResponse extends XeroResponse<Attachment> {
+  Attachments: Attachment[];
+}
+
+export interface HistoryRecordsResponse extends XeroResponse<HistoryRecord> {
+  HistoryRecords: HistoryRecord[];
+}
+
+export interface OnlineInvoicesResponse extends XeroResponse<OnlineInvoice> {
+  OnlineInvoices: OnlineInvoice[];
+}
+
 export interface ContactsResponse extends XeroResponse<Contact> {
   Contacts: Contact[];
 }
@@ -716,6 +1000,10 @@ export interface ReportsResponse extends XeroResponse<Report> {
   Reports: Report[];
 }
 
+export interface RepeatingInvoicesResponse extends XeroResponse<RepeatingInvoice> {
+  RepeatingInvoices: RepeatingInvoice[];
+}
+
 export interface QuotesResponse extends XeroResponse<Quote> {
   Quotes: Quote[];
 }
@@ -732,12 +1020,81 @@ export interface ContactGroupsResponse extends XeroResponse<ContactGroup> {
   ContactGroups: ContactGroup[];
 }
 
+// ==================== Dry Run ====================
+
+export interface PlannedRequest {
+  method: string;
+  endpoint: string;
+  tenantId?: string;
+  queryParams?: Record<string, string>;
+  /** JSON payload, or a summary of a binary upload */
+  body?: Record<string, any>;
+}
+
+export interface DryRunResult {
+  dryRun: true;
+  requests: PlannedRequest[];
+  sideEffects: string[];
+}
+
+// ==================== Idempotency ====================
+
+export interface IdempotencyJournalEntry {
+  method: string;
+  endpoint: string;
+  tenantId?: string;
+  status: "pending" | "completed";
+  createdAt: string;
+  completedAt?: string;
+  /** IDs of the records the write returned; responses aren't kept */
+  recordIds?: string[];
+}
+
+export interface IdempotencyJournal {
+  [idempotencyKey: string]: IdempotencyJournalEntry;
+}
+
 // ==================== CLI Options ====================
 
+export type OutputFormat = "json" | "table" | "csv" | "ndjson";
+
+export type PdfDocumentType = "invoice" | "quote" | "creditnote" | "purchaseorder";
+
 export interface ListOptions {
   page?: number;
   where?: string;
   order?: string;
+  /** Walk every page (from `page`, default 1) and merge the results */
+  all?: boolean;
+  /** Stop after this many records (implies walking pages) */
+  limit?: number;
+  /** Only return records modified since this timestamp (sent as If-Modified-Since) */
+  modifiedSince?: string;
+}
+
+export type SyncEntity =
+  | "invoices"
+  | "contacts"
+  | "payments"
+  | "credit-notes"
+  | "bank-transactions"
+  | "quotes"
+  | "overpayments"
+  | "prepayments";
+
+export interface SyncState {
+  [tenantId: string]: {
+    [entity: string]: { highWaterMark: string; lastRunAt: string };
+  };
+}
+
+export interface SyncResult<T = unknown> {
+  entity: SyncEntity;
+  tenantId: string;
+  since: string | null;
+  highWaterMark: string | null;
+  count: number;
+  records: T[];
 }
 
 export interface ReportOptions {
@@ -750,17 +1107,100 @@ export interface ReportOptions {
   contactId?: string;
 }
 
+export interface LineItemInput {
+  /** Optional when itemCode is given (Xero uses the item's description) */
+  description?: string;
+  quantity: number;
+  unitAmount: number;
+  accountCode?: string;
+  itemCode?: string;
+  taxType?: string;
+  /** Percentage, 0-100 */
+  discountRate?: number;
+  tracking?: Array<{ name: string; option: string }>;
+}
+
+/** Lookups line items are validated against, keyed by upper-cased code */
+export interface LineItemReferences {
+  accountsByCode: Map<string, Account>;
+  taxRatesByType: Map<string, TaxRate>;
+  itemCodes: Set<string>;
+}
+
 export interface CreateInvoiceOptions {
+  /** ContactID, contact number, email address or name */
   contactName: string;
-  lineItems: Array<{
-    description: string;
-    quantity: number;
-    unitAmount: number;
-    accountCode?: string;
-  }>;
+  /** Create a contact named contactName when nothing matches (default: fail with near-matches) */
+  createContactIfMissing?: boolean;
+  lineItems: LineItemInput[];
   type?: "ACCREC" | "ACCPAY";
+  /** Invoice date (YYYY-MM-DD); Xero defaults to today */
+  date?: string;
   dueDate?: string;
   reference?: string;
+  /** Whether unit amounts include tax. Xero defaults to Exclusive */
+  lineAmountTypes?: "Exclusive" | "Inclusive" | "NoTax";
+  /** ISO currency code; defaults to the organisation's base currency */
+  currencyCode?: string;
+  brandingThemeId?: string;
+  /** Default: DRAFT */
+  status?: "DRAFT" | "SUBMITTED" | "AUTHORISED";
+}
+
+/** One invoice assembled from import rows sharing an invoice number */
+export interface InvoiceImport extends Omit<CreateInvoiceOptions, "createContactIfMissing"> {
+  invoiceNumber: string;
+  /** Import file rows (1 = first row after the header) the invoice came from */
+  rows: number[];
+}
+
+export interface ImportRowResult {
+  row: number;
+  invoiceNumber?: string;
+  /** ready: valid, not sent (dry run); skipped: the invoice number already exists */
+  status: "created" | "skipped" | "failed" | "ready";
+  invoiceId?: string;
+  errors?: string[];
+}
+
+export interface ImportInvoicesResult {
+  summary: { invoices: number; created: number; skipped: number; failed: number; ready: number };
+  rows: ImportRowResult[];
+}
+
+export interface RepeatingScheduleOptions {
+  /** Number of units between invoices. Default: 1 */
+  period?: number;
+  unit: ScheduleUnit;
+  /** First invoice date (YYYY-MM-DD) */
+  startDate: string;
+  /** Date the next invoice is generated (YYYY-MM-DD). Default: startDate */
+  nextScheduledDate?: string;
+  endDate?: string;
+  /** Meaning depends on dueDateType: a number of days or a day of the month */
+  dueDate?: number;
+  dueDateType?: DueDateType;
+}
+
+export interface CreateRepeatingInvoiceOptions {
+  /** ContactID, contact number, email address or name of an existing contact */
+  contactName: string;
+  lineItems: LineItemInput[];
+  schedule: RepeatingScheduleOptions;
+  type?: "ACCREC" | "ACCPAY";
+  reference?: string;
+  lineAmountTypes?: "Exclusive" | "Inclusive" | "NoTax";
+  currencyCode?: string;
+  brandingThemeId?: string;
+  /** Default: DRAFT */
+  status?: "DRAFT" | "AUTHORISED";
+}
+
+export interface UpdateRepeatingInvoiceOptions {
+  schedule?: Partial<RepeatingScheduleOptions>;
+  lineItems?: LineItemInput[];
+  reference?: string;
+  status?: "DRAFT" | "AUTHORISED";
 }
 
 export interface CreateContactOptions {
@@ -768,8 +1208,29 @@ export interface CreateContactOptions {
   email?: string;
   firstName?: string;
   lastName?: string;
+  /** Sets the DEFAULT phone number */
   phone?: string;
-}
+  contactNumber?: string;
+  accountNumber?: string;
+  taxNumber?: string;
+  /** Bank account that payments to this contact go to */
+  bankAccountDetails?: string;
+  website?: string;
+  /** ISO currency code */
+  defaultCurrency?: string;
+  salesDefaultAccountCode?: string;
+  purchasesDefaultAccountCode?: string;
+  accountsReceivableTaxType?: string;
+  accountsPayableTaxType?: string;
+  addresses?: Address[];
+  phones?: Phone[];
+  paymentTerms?: PaymentTerms;
+  batchPayments?: BatchPaymentDetails;
+  /** Default discount on sales, as a percentage */
+  discount?: number;
+}
+
+export type UpdateContactOptions = Partial<CreateContactOptions>;
 
 export interface CreatePaymentOptions {
   invoiceId: string;
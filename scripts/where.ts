@@ -0,0 +1,21 @@
+/**
+ * Where Clause Helpers
+ *
+ * Builds Xero `where` filters with string values quoted and escaped so a
+ * value containing quotes can't break (or change) the filter. Xero's filter
+ * syntax (Dynamic LINQ) escapes a double quote by doubling it.
+ */
+
+/**
+ * Quote a value as a where-clause string literal
+ */
+export function xeroString(value: string): string {
+  return `"${value.replace(/"/g, '""')}"`;
+}
+
+/**
+ * `Field=="value"` with the value escaped
+ */
+export function whereEquals(field: string, value: string): string {
+  return `${field}==${xeroString(value)}`;
+}
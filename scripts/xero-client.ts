@@ -6,21 +6,64 @@
  */
 
 import { readFileSync, existsSync, mkdirSync, writeFileSync, rmSync } from "fs";
+import { createHash, randomUUID } from "crypto";
 import { fileURLToPath } from "url";
 import { dirname, join } from "path";
 import { homedir } from "os";
-import https from "https";
 import { PluginCache, TTL, createCacheKey } from "@local/plugin-cache";
+import {
+  XeroApiError,
+  XeroAuthError,
+  XeroContactNotFoundError,
+  XeroNotFoundError,
+  XeroPreflightError,
+  createXeroApiError,
+} from "./errors.js";
+import { parseXeroDate, toXeroDateTime } from "./dates.js";
+import { nameSimilarity, normaliseName } from "./similarity.js";
+import {
+  ATTACHMENT_ENDPOINTS,
+  MAX_ATTACHMENTS_PER_DOCUMENT,
+  MAX_ATTACHMENT_BYTES,
+  attachmentMimeType,
+  isAllowedMimeType,
+} from "./attachments.js";
+import { whereEquals } from "./where.js";
+import { projectSchedule } from "./schedule.js";
+import { CONTACT_FIELDS, PAYMENT_TERM_TYPES } from "./contact-input.js";
+import { DEFAULT_NAME_THRESHOLD, clusterDuplicateContacts, describeDuplicateCluster } from "./duplicates.js";
+import { buildStatement, statementCurrencies } from "./statement.js";
+import { HISTORY_ENDPOINTS, HISTORY_ID_FIELDS, MAX_NOTE_LENGTH, changeNote } from "./history.js";
+import { XERO_ENDPOINTS, transportFromEnv } from "./transport.js";
+import type { Transport, XeroEndpoints } from "./transport.js";
 import type {
   ConfigFile,
   XeroConfig,
+  TenantSettings,
   TokenCache,
   TokenResponse,
+  RateLimitStatus,
   XeroConnection,
+  TenantResult,
   Invoice,
   InvoicesResponse,
+  LineItem,
+  OnlineInvoicesResponse,
+  EmailInvoiceResult,
+  InvoiceCancellationPlan,
+  InvoiceUpdateStatus,
+  RepeatingInvoice,
+  RepeatingInvoicesResponse,
+  ProjectedInvoice,
+  Schedule,
   Contact,
   ContactsResponse,
+  ContactMatch,
+  ContactCandidate,
+  ContactActivity,
+  ContactArchivePlan,
+  ContactStatement,
+  DuplicateContactCluster,
   Account,
   AccountsResponse,
   Payment,
@@ -45,10 +88,34 @@ import type {
   PrepaymentsResponse,
   ContactGroup,
   ContactGroupsResponse,
+  ContactGroupMembershipResult,
   ListOptions,
+  IdempotencyJournal,
+  IdempotencyJournalEntry,
+  PlannedRequest,
+  DryRunResult,
+  SyncEntity,
+  SyncState,
+  SyncResult,
   ReportOptions,
+  PdfDocumentType,
+  Attachment,
+  AttachmentEntity,
+  AttachmentsResponse,
+  HistoryEntity,
+  HistoryRecord,
+  HistoryRecordsResponse,
   CreateInvoiceOptions,
+  InvoiceImport,
+  ImportRowResult,
+  ImportInvoicesResult,
+  CreateRepeatingInvoiceOptions,
+  UpdateRepeatingInvoiceOptions,
+  RepeatingScheduleOptions,
+  LineItemInput,
+  LineItemReferences,
   CreateContactOptions,
+  UpdateContactOptions,
   CreatePaymentOptions,
 } from "./types.js";
 
@@ -56,11 +123,53 @@ const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
 
 // API Constants
-const XERO_IDENTITY_HOST = "identity.xero.com";
-const XERO_API_BASE = "https://api.xero.com/api.xro/2.0";
-const XERO_CONNECTIONS_URL = "https://api.xero.com/connections";
 const TOKEN_EXPIRY_BUFFER_MS = 5 * 60 * 1000; // 5 minutes before actual expiry
 
+// Retry / rate limit defaults
+const DEFAULT_MAX_RETRIES = 3;
+const DEFAULT_MAX_CONCURRENT_REQUESTS = 5; // Xero allows 5 in-flight calls per tenant
+const RETRY_BASE_DELAY_MS = 1000;
+const RETRY_MAX_DELAY_MS = 30 * 1000;
+const MAX_RETRY_AFTER_MS = 2 * 60 * 1000; // Longer waits (e.g. daily limit) fail fast instead
+const APP_LIMITER_KEY = "__app__"; // Limiter key for tenant-less calls (connections)
+const DEFAULT_FAN_OUT_CONCURRENCY = 3; // Organisations queried at once by forEachTenant
+
+// Idempotency keys for writes (Xero honours them on POST/PUT)
+const IDEMPOTENT_METHODS = new Set(["POST", "PUT"]);
+const JOURNAL_RETENTION_MS = 24 * 60 * 60 * 1000; // Replays expire so deliberate repeats aren't blocked for long
+
+// Paged endpoints return at most this many records per page
+const PAGE_SIZE = 100;
+
+// Statuses updateInvoice may set; voiding/deleting go through their own checks
+const INVOICE_UPDATE_STATUSES = new Set<string>(["DRAFT", "SUBMITTED", "AUTHORISED"]);
+
+// Xero refuses to email invoices in any other status
+const EMAILABLE_INVOICE_STATUSES = new Set(["SUBMITTED", "AUTHORISED", "PAID"]);
+
+// API collection for each PDF document type
+const PDF_ENDPOINTS: Record<PdfDocumentType, string> = {
+  invoice: "Invoices",
+  quote: "Quotes",
+  creditnote: "CreditNotes",
+  purchaseorder: "PurchaseOrders",
+};
+
+// Bulk import: Xero accepts up to 50 invoices per request; number lookups keep URLs short
+const IMPORT_BATCH_SIZE = 50;
+const INVOICE_NUMBER_LOOKUP_SIZE = 40;
+
+// Contact resolution
+const GUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const MIN_CANDIDATE_SCORE = 0.3; // Below this, search hits are too loose to suggest
+
+// Duplicate detection: contacts per invoice activity lookup, keeping URLs short
+const CONTACT_ACTIVITY_LOOKUP_SIZE = 40;
+
+// Contact groups: contacts per IDs lookup (short URLs), and added per request
+const CONTACT_GROUP_LOOKUP_SIZE = 40;
+const CONTACT_GROUP_BATCH_SIZE = 100;
+
 // Scopes for Xero API access
 const XERO_SCOPES = [
   "accounting.transactions",
@@ -81,14 +190,266 @@ const TMPFS_CREDS_DIR = "YOUR_CREDENTIALS_PATH/xero";
 const FALLBACK_DIR = join(homedir(), ".cache", "xero-accounting-manager");
 const TENANT_ID_DIR = existsSync("/dev/shm") ? TMPFS_CREDS_DIR : FALLBACK_DIR;
 const TENANT_ID_PATH = join(TENANT_ID_DIR, "tenant-id.txt");
+// Second line of tenant-id.txt when use-tenant chose the organisation (not discovery)
+const TENANT_CHOSEN_MARKER = "use-tenant";
+
+// Per-tenant, per-endpoint high-water marks for incremental sync
+const SYNC_STATE_FILE = "sync-state.json";
+
+// Idempotency keys of writes already sent, so re-runs don't duplicate
+const IDEMPOTENCY_JOURNAL_FILE = "idempotency-journal.json";
+
+const sleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Run fn over items with at most `limit` calls in flight, preserving order
+ */
+async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
+
+async function collect<T>(iterator: AsyncIterable<T>): Promise<T[]> {
+  const records: T[] = [];
+  for await (const record of iterator) {
+    records.push(record);
+  }
+  return records;
+}
+
+/**
+ * Reasons Xero would refuse to void or delete an invoice
+ */
+function cancellationBlockers(invoice: Invoice, action: "void" | "delete"): string[] {
+  const label = invoice.InvoiceNumber || invoice.InvoiceID;
+  const amount = (value: number | undefined) => (value ?? 0).toFixed(2);
+  const day = (value: string) => parseXeroDate(value)?.toISOString().slice(0, 10) ?? value;
+
+  if (invoice.Status === "VOIDED" || invoice.Status === "DELETED") {
+    return [`Invoice ${label} is already ${invoice.Status}`];
+  }
+  if (action === "delete" && invoice.Status !== "DRAFT" && invoice.Status !== "SUBMITTED") {
+    return [`Invoice ${label} is ${invoice.Status}; only DRAFT or SUBMITTED invoices can be deleted - void it instead`];
+  }
+  if (action === "void" && (invoice.Status === "DRAFT" || invoice.Status === "SUBMITTED")) {
+    return [`Invoice ${label} is ${invoice.Status}; it hasn't been approved, so delete it instead`];
+  }
+
+  const blockers = [
+    ...(invoice.Payments || [])
+      .filter((p) => p.Status !== "DELETED")
+      .map((p) => `Remove payment ${p.PaymentID} of ${amount(p.Amount)}${p.Date ? ` dated ${day(p.Date)}` : ""}`),
+    ...(invoice.CreditNotes || []).map(
+      (c) => `Remove the allocation of credit note ${c.CreditNoteNumber || c.CreditNoteID} (${amount(c.AppliedAmount ?? c.Total)})`
+    ),
+    ...(invoice.Prepayments || []).map(
+      (p) => `Remove the allocation of prepayment ${p.PrepaymentID} (${amount(p.AppliedAmount ?? p.Total)})`
+    ),
+    ...(invoice.Overpayments || []).map(
+      (o) => `Remove the allocation of overpayment ${o.OverpaymentID} (${amount(o.AppliedAmount ?? o.Total)})`
+    ),
+  ];
+  // Amounts applied but not itemised on the invoice
+  if (blockers.length === 0 && ((invoice.AmountPaid ?? 0) > 0 || (invoice.AmountCredited ?? 0) > 0)) {
+    blockers.push(
+      `Invoice ${label} has ${amount(invoice.AmountPaid)} paid and ${amount(invoice.AmountCredited)} credited; remove those first`
+    );
+  }
+  return blockers;
+}
+
+/**
+ * Collection whose records a write to `endpoint` returns, if they keep a
+ * history: `/Invoices` and `/Invoices/{id}`, but not sub-resources such as
+ * `/Invoices/{id}/Email` or `/Invoices/{id}/History`.
+ */
+function noteableCollection(endpoint: string): string | undefined {
+  const [collection, ...rest] = endpoint.split("?")[0].split("/").filter(Boolean);
+  return rest.length <= 1 && HISTORY_ID_FIELDS[collection] ? collection : undefined;
+}
+
+/**
+ * Whether a write creates records: PUT/POST to a bare collection such as
+ * `/Invoices`. Only creates get a payload-derived idempotency key - an
+ * identical update or action (re-email, archive again) is meant to go out.
+ */
+function isCreateEndpoint(endpoint: string): boolean {
+  return /^\/[A-Za-z]+$/.test(endpoint.split("?")[0]);
+}
+
+/**
+ * IDs of the records a write returned (`InvoiceID` for `/Invoices/...`), so
+ * the idempotency journal can point at them without storing their details
+ */
+function writtenRecordIds(endpoint: string, result: unknown): string[] {
+  const collection = endpoint.split("?")[0].split("/").filter(Boolean)[0];
+  const records = (result as Record<string, any> | undefined)?.[collection];
+  const idField = `${collection.replace(/s$/, "")}ID`;
+  return Array.isArray(records) ? [...new Set<string>(records.map((r) => r?.[idField]).filter(Boolean))] : [];
+}
+
+/**
+ * Xero Contact fields for contact options; `phone` replaces the DEFAULT phone
+ */
+function contactBody(options: UpdateContactOptions): Record<string, any> {
+  const body: Record<string, any> = {};
+  for (const [option, field] of Object.entries(CONTACT_FIELDS)) {
+    const value = options[option as keyof typeof CONTACT_FIELDS];
+    if (value !== undefined && value !== "") {
+      body[field] = value;
+    }
+  }
+  if (options.phone) {
+    body.Phones = [
+      ...(body.Phones || []).filter((p: { PhoneType?: string }) => p.PhoneType !== "DEFAULT"),
+      { PhoneType: "DEFAULT", PhoneNumber: options.phone },
+    ];
+  }
+  return body;
+}
+
+/**
+ * Xero Schedule body for repeating invoice schedule options
+ */
+function scheduleBody(options: RepeatingScheduleOptions): Partial<Schedule> {
+  return {
+    Period: options.period ?? 1,
+    Unit: options.unit,
+    DueDate: options.dueDate,
+    DueDateType: options.dueDateType,
+    StartDate: options.startDate,
+    NextScheduledDate: options.nextScheduledDate,
+    EndDate: options.endDate,
+  };
+}
+
+/**
+ * Membership change summary, with contacts reduced to ID and name
+ */
+function membershipResult(
+  group: ContactGroup,
+  changed: Contact[],
+  skipped: Contact[]
+): ContactGroupMembershipResult {
+  const brief = (contact: Contact) => ({ ContactID: contact.ContactID, Name: contact.Name });
+  return {
+    ContactGroupID: group.ContactGroupID!,
+    Name: group.Name || "",
+    changed: changed.map(brief),
+    skipped: skipped.map(brief),
+  };
+}
+
+/**
+ * FIFO semaphore capping in-flight requests.
+ * Slots are handed directly to the next waiter so the limit is never exceeded.
+ */
+class ConcurrencyLimiter {
+  private active = 0;
+  private waiters: Array<() => void> = [];
+
+  constructor(private readonly limit: number) {}
+
+  async run<T>(task: () => Promise<T>): Promise<T> {
+    if (this.active < this.limit) {
+      this.active++;
+    } else {
+      await new Promise<void>((resolve) => this.waiters.push(resolve));
+    }
+
+    try {
+      return await task();
+    } finally {
+      const next = this.waiters.shift();
+      if (next) {
+        next();
+      } else {
+        this.active--;
+      }
+    }
+  }
+}
+
+export interface XeroClientOptions {
+  /** Use these credentials instead of reading config.json */
+  config?: XeroConfig;
+  /** Override the HTTP transport (defaults to fetch, or XERO_RECORD_DIR recording) */
+  transport?: Transport;
+  /** Override Xero hosts (defaults to production, or XERO_BASE_URL) */
+  endpoints?: XeroEndpoints;
+}
 
 export class XeroClient {
   private config: XeroConfig;
+  private transport: Transport;
+  private endpoints: XeroEndpoints;
   private tokenCache: TokenCache | null = null;
   private tenantId: string | null = null;
+  private tenantChosen = false;
   private cacheDisabled: boolean = false;
+  private limiters = new Map<string, ConcurrencyLimiter>();
+  private rateLimits = new Map<string, RateLimitStatus>();
+  private isolated: boolean;
+  private stateDir: string;
+  private dryRun = false;
+  private plannedRequests: PlannedRequest[] = [];
+  private sideEffects: string[] = [];
+  private idempotencyKey: string | null = null;
+  private keyedWrites = 0;
+  private replayedWrites: string[] = [];
+  private writeNote: string | null = null;
+  private noteFailures: string[] = [];
+  private connections: XeroConnection[] | null = null;
+  private writtenTenantIds = new Set<string>();
+
+  constructor(options?: XeroClientOptions) {
+    const fromEnv = transportFromEnv();
+    this.transport = options?.transport || fromEnv.transport;
+    this.endpoints = options?.endpoints || fromEnv.endpoints;
+    this.config = options?.config || this.loadConfig();
+
+    // Against a non-production host (fake server), never share the persisted
+    // tenant or cached data with real runs
+    this.isolated = this.endpoints.apiBaseUrl !== XERO_ENDPOINTS.apiBaseUrl;
+    // Write and sync state (idempotency journal, sync watermarks) is kept
+    // per host instead, so offline runs can't move the real sync forward
+    this.stateDir = this.isolated
+      ? join(FALLBACK_DIR, "hosts", new URL(this.endpoints.apiBaseUrl).host.replace(/[^\w.-]/g, "_"))
+      : FALLBACK_DIR;
+    if (this.isolated) {
+      this.disableCache();
+      return;
+    }
+
+    // Try to load cached tenant ID
+    const saved = this.loadTenantId();
+    this.tenantId = saved?.tenantId ?? null;
+    this.tenantChosen = saved?.chosen ?? false;
+  }
+
+  private loadConfig(): XeroConfig {
+    // Environment credentials are for the fake server only (XERO_BASE_URL),
+    // so a stray export can't replace the configured app against real Xero
+    const local = this.endpoints.apiBaseUrl !== XERO_ENDPOINTS.apiBaseUrl;
+    if (local && process.env.XERO_CLIENT_ID && process.env.XERO_CLIENT_SECRET) {
+      return {
+        clientId: process.env.XERO_CLIENT_ID,
+        clientSecret: process.env.XERO_CLIENT_SECRET,
+      };
+    }
 
-  constructor() {
     // Try multiple locations for config.json
     const possiblePaths = [
       join(__dirname, "config.json"),
@@ -114,20 +475,17 @@ export class XeroClient {
 
     // Support both formats: direct xero.{} or mcpServer.env.XERO_*
     if (configFile.xero?.clientId && configFile.xero?.clientSecret) {
-      this.config = configFile.xero;
+      return configFile.xero;
     } else if (configFile.mcpServer?.env?.XERO_CLIENT_ID && configFile.mcpServer?.env?.XERO_CLIENT_SECRET) {
-      this.config = {
+      return {
         clientId: configFile.mcpServer.env.XERO_CLIENT_ID,
         clientSecret: configFile.mcpServer.env.XERO_CLIENT_SECRET,
       };
-    } else {
-      throw new Error(
-        "Missing required config. Expected either xero.{clientId,clientSecret} or mcpServer.env.{XERO_CLIENT_ID,XERO_CLIENT_SECRET}"
-      );
     }
 
-    // Try to load cached tenant ID
-    this.tenantId = this.loadTenantId();
+    throw new Error(
+      "Missing required config. Expected either xero.{clientId,clientSecret} or mcpServer.env.{XERO_CLIENT_ID,XERO_CLIENT_SECRET}"
+    );
   }
 
   // ============================================
@@ -165,12 +523,188 @@ export class XeroClient {
     return cache.invalidate(key);
   }
 
+  // ============================================
+  // DRY RUN
+  // ============================================
+
+  /**
+   * Enables dry-run mode: reads still hit Xero (to resolve contacts, accounts,
+   * etc.) but writes are recorded instead of sent and echo their payload back.
+   */
+  setDryRun(enabled: boolean): void {
+    this.dryRun = enabled;
+    this.plannedRequests = [];
+    this.sideEffects = [];
+  }
+
+  /**
+   * Returns the writes captured since dry-run mode was enabled.
+   */
+  getDryRunResult(): DryRunResult {
+    return { dryRun: true, requests: this.plannedRequests, sideEffects: this.sideEffects };
+  }
+
+  /**
+   * Record a consequence of a write that isn't obvious from its payload.
+   */
+  private noteSideEffect(message: string): void {
+    if (this.dryRun) {
+      this.sideEffects.push(message);
+    }
+  }
+
+  // ============================================
+  // CHANGE NOTES
+  // ============================================
+
+  /**
+   * Sets the reason to record on every record subsequent writes create or
+   * change, as a history note. Pass nothing to stop adding notes.
+   */
+  setWriteNote(reason?: string): void {
+    this.writeNote = reason ? changeNote(reason) : null;
+    this.noteFailures = [];
+  }
+
+  /**
+   * Change notes that couldn't be added (the writes themselves succeeded).
+   */
+  getNoteFailures(): string[] {
+    return this.noteFailures;
+  }
+
+  /**
+   * Add the change note to each record a write returned, if its collection
+   * keeps a history. Failures are collected rather than thrown.
+   */
+  private async addChangeNotes(endpoint: string, result: unknown, tenantId: string | undefined): Promise<void> {
+    const collection = noteableCollection(endpoint);
+    const records = collection && (result as Record<string, any> | undefined)?.[collection];
+    if (!this.writeNote || !collection || !Array.isArray(records)) {
+      return;
+    }
+    const idField = HISTORY_ID_FIELDS[collection];
+    for (const id of new Set<string>(records.map((r) => r?.[idField]).filter(Boolean))) {
+      try {
+        await this.putHistoryNote(`/${collection}/${id}/History`, this.writeNote, tenantId);
+      } catch (e) {
+        this.noteFailures.push(`${collection} ${id}: ${e instanceof Error ? e.message : String(e)}`);
+      }
+    }
+  }
+
+  // ============================================
+  // IDEMPOTENCY
+  // ============================================
+
+  /**
+   * Sets the Idempotency-Key for subsequent writes. The first write uses the
+   * key as given; further writes in the same run get "-2", "-3", ... appended.
+   * Without a key, creates are keyed by their payload and every other write
+   * gets a fresh key, so only a repeated create is answered from the journal.
+   */
+  setIdempotencyKey(key?: string): void {
+    this.idempotencyKey = key || null;
+    this.keyedWrites = 0;
+    this.replayedWrites = [];
+  }
+
+  /**
+   * Writes not sent because the journal showed them already completed.
+   */
+  getReplayedWrites(): string[] {
+    return this.replayedWrites;
+  }
+
+  /**
+   * Key for a write, and whether a completed entry under it may be replayed
+   */
+  private nextIdempotencyKey(
+    method: string,
+    endpoint: string,
+    tenantId: string | undefined,
+    queryParams: Record<string, string> | undefined,
+    body: Record<string, any> | Buffer | undefined
+  ): { key: string; replayable: boolean } {
+    if (this.idempotencyKey) {
+      this.keyedWrites++;
+      const key = this.keyedWrites === 1 ? this.idempotencyKey : `${this.idempotencyKey}-${this.keyedWrites}`;
+      return { key, replayable: true };
+    }
+    if (!isCreateEndpoint(endpoint)) {
+      // Still sent as Idempotency-Key, so Xero dedupes this call's retries
+      return { key: randomUUID(), replayable: false };
+    }
+
+    // File uploads are keyed by content hash rather than serialised bytes
+    const payload = Buffer.isBuffer(body) ? createHash("sha256").update(body).digest("hex") : body;
+    const key = createHash("sha256")
+      .update(JSON.stringify({ method: method.toUpperCase(), endpoint, tenantId, queryParams, body: payload }))
+      .digest("hex");
+    return { key, replayable: true };
+  }
+
+  private loadJournal(): IdempotencyJournal {
+    try {
+      const path = join(this.stateDir, IDEMPOTENCY_JOURNAL_FILE);
+      if (existsSync(path)) {
+        return JSON.parse(readFileSync(path, "utf-8"));
+      }
+    } catch {
+      // Corrupt journal - treat every write as new
+    }
+    return {};
+  }
+
+  private saveJournal(journal: IdempotencyJournal): void {
+    // Drop entries past retention, and response bodies older versions kept
+    const cutoff = Date.now() - JOURNAL_RETENTION_MS;
+    for (const [key, entry] of Object.entries(journal)) {
+      if (Date.parse(entry.createdAt) < cutoff) {
+        delete journal[key];
+      } else {
+        delete (entry as { response?: unknown }).response;
+      }
+    }
+
+    if (!existsSync(this.stateDir)) {
+      mkdirSync(this.stateDir, { recursive: true });
+    }
+    writeFileSync(join(this.stateDir, IDEMPOTENCY_JOURNAL_FILE), JSON.stringify(journal, null, 2), "utf-8");
+  }
+
+  /**
+   * Re-read the journal before changing one entry (other runs may have written to it)
+   */
+  private updateJournal(
+    key: string,
+    update: (entry: IdempotencyJournalEntry) => IdempotencyJournalEntry | undefined
+  ): void {
+    const journal = this.loadJournal();
+    const next = journal[key] ? update(journal[key]) : undefined;
+    if (next) {
+      journal[key] = next;
+    } else {
+      delete journal[key];
+    }
+    this.saveJournal(journal);
+  }
+
+  /**
+   * Returns the most recent rate limit headers seen for a tenant.
+   * @param tenantId - Tenant ID (defaults to the active tenant)
+   */
+  getRateLimitStatus(tenantId?: string): RateLimitStatus | null {
+    return this.rateLimits.get(tenantId || this.tenantId || APP_LIMITER_KEY) || null;
+  }
+
   // ==================== Tenant ID Persistence ====================
 
-  private loadTenantId(): string | null {
+  private loadTenantId(): { tenantId: string; chosen: boolean } | null {
     try {
       if (existsSync(TENANT_ID_PATH)) {
-        return readFileSync(TENANT_ID_PATH, "utf-8").trim();
+        const [tenantId, marker] = readFileSync(TENANT_ID_PATH, "utf-8").trim().split("\n");
+        return tenantId ? { tenantId: tenantId.trim(), chosen: marker?.trim() === TENANT_CHOSEN_MARKER } : null;
       }
     } catch {
       // Ignore errors
@@ -178,12 +712,15 @@ export class XeroClient {
     return null;
   }
 
-  private saveTenantId(tenantId: string): void {
+  private saveTenantId(tenantId: string, chosen: boolean): void {
+    if (this.isolated) {
+      return;
+    }
     try {
       if (!existsSync(TENANT_ID_DIR)) {
         mkdirSync(TENANT_ID_DIR, { recursive: true });
       }
-      writeFileSync(TENANT_ID_PATH, tenantId, "utf-8");
+      writeFileSync(TENANT_ID_PATH, chosen ? `${tenantId}\n${TENANT_CHOSEN_MARKER}` : tenantId, "utf-8");
     } catch {
       // Ignore errors
     }
@@ -204,63 +741,52 @@ export class XeroClient {
   /**
    * Fetch OAuth access token from Xero
    */
-  private fetchToken(): Promise<string> {
-    return new Promise((resolve, reject) => {
-      const credentials = Buffer.from(
-        `${this.config.clientId}:${this.config.clientSecret}`
-      ).toString("base64");
+  private async fetchToken(): Promise<string> {
+    const credentials = Buffer.from(
+      `${this.config.clientId}:${this.config.clientSecret}`
+    ).toString("base64");
 
-      const postData = `grant_type=client_credentials&scope=${encodeURIComponent(XERO_SCOPES)}`;
+    const postData = `grant_type=client_credentials&scope=${encodeURIComponent(XERO_SCOPES)}`;
 
-      const options = {
-        hostname: XERO_IDENTITY_HOST,
-        port: 443,
-        path: "/connect/token",
+    let response: Response;
+    try {
+      response = await this.transport(this.endpoints.identityUrl, {
         method: "POST",
         headers: {
           "Content-Type": "application/x-www-form-urlencoded",
           Authorization: `Basic ${credentials}`,
           Accept: "application/json",
-          "Content-Length": Buffer.byteLength(postData),
         },
-      };
-
-      const req = https.request(options, (res) => {
-        let data = "";
-        res.on("data", (chunk) => {
-          data += chunk;
-        });
-        res.on("end", () => {
-          try {
-            const json: TokenResponse = JSON.parse(data);
-            if (json.error) {
-              reject(
-                new Error(
-                  `Xero OAuth error: ${json.error} - ${json.error_description || ""}`
-                )
-              );
-            } else if (json.access_token) {
-              // Cache the token with expiry
-              this.tokenCache = {
-                accessToken: json.access_token,
-                expiresAt: Date.now() + (json.expires_in * 1000) - TOKEN_EXPIRY_BUFFER_MS,
-              };
-              resolve(json.access_token);
-            } else {
-              reject(new Error(`Unexpected Xero response: ${data}`));
-            }
-          } catch (e) {
-            reject(new Error(`Failed to parse Xero response: ${data}`));
-          }
-        });
+        body: postData,
       });
+    } catch (e) {
+      throw new Error(`Xero token request failed: ${(e as Error).message}`);
+    }
+
+    const data = await response.text();
+    let json: TokenResponse;
+    try {
+      json = JSON.parse(data);
+    } catch {
+      throw new Error(`Failed to parse Xero response: ${data}`);
+    }
 
-      req.on("error", (e) =>
-        reject(new Error(`Xero token request failed: ${e.message}`))
+    if (json.error) {
+      throw new XeroAuthError(
+        `Xero OAuth error: ${json.error} - ${json.error_description || ""}`,
+        { status: response.status, method: "POST", endpoint: "/connect/token" }
       );
-      req.write(postData);
-      req.end();
-    });
+    }
+    if (!json.access_token) {
+      throw new Error(`Unexpected Xero response: ${data}`);
+    }
+
+    // Cache the token with expiry
+    this.tokenCache = {
+      accessToken: json.access_token,
+      expiresAt: Date.now() + (json.expires_in * 1000) - TOKEN_EXPIRY_BUFFER_MS,
+    };
+    return json.access_token;
   }
 
   /**
@@ -277,47 +803,172 @@ export class XeroClient {
   }
 
   /**
-   * Get the tenant ID (from cache, discovery, or option)
+   * Get the tenant ID (from option, persisted default, or discovery)
+   *
+   * With several organisations connected and no default chosen, reads fall
+   * back to the first connection but writes are refused. A discovered ID
+   * saved while only one organisation was connected doesn't count as chosen.
    */
-  private async getTenantId(optionTenantId?: string): Promise<string> {
+  private async getTenantId(optionTenantId?: string, options?: { forWrite?: boolean }): Promise<string> {
     // Use option if provided
     if (optionTenantId) {
       return optionTenantId;
     }
 
-    // Use cached tenant ID if available
-    if (this.tenantId) {
+    // Use persisted tenant ID if available; writes re-check the connections
+    // unless use-tenant chose it
+    if (this.tenantId && (this.tenantChosen || !options?.forWrite)) {
       return this.tenantId;
     }
 
     // Auto-discover tenant ID
-    const connections = await this.getConnections();
+    const connections = await this.getKnownConnections();
     if (connections.length === 0) {
       throw new Error("No Xero organisations connected. Please connect an organisation in the Xero Developer Portal.");
     }
 
-    // Use the first connection
-    this.tenantId = connections[0].tenantId;
-    this.saveTenantId(this.tenantId);
-    return this.tenantId;
+    if (connections.length === 1) {
+      this.tenantId = connections[0].tenantId;
+      this.saveTenantId(this.tenantId, false);
+      return this.tenantId;
+    }
+
+    if (options?.forWrite) {
+      throw new XeroPreflightError(
+        `${connections.length} Xero organisations are connected and none was chosen for this write. ` +
+          "Pass --tenant <name|alias> or run use-tenant first.",
+        connections.map((c) => `${c.tenantName} (${c.tenantId})`)
+      );
+    }
+
+    // Reads use the first organisation without making it the default
+    return connections[0].tenantId;
+  }
+
+  /**
+   * Connections fetched earlier in this run, or fetch them now
+   */
+  private async getKnownConnections(): Promise<XeroConnection[]> {
+    return this.connections ?? this.getConnections();
+  }
+
+  /**
+   * Resolves a tenant ID, organisation name or configured alias to a connection.
+   *
+   * Aliases come from xero.tenantAliases in config.json and may point at a
+   * tenant ID or organisation name. Names match case-insensitively.
+   *
+   * @param ref - Tenant ID, organisation name or alias
+   * @returns Matching connection
+   */
+  async resolveTenant(ref: string): Promise<XeroConnection> {
+    const aliases = this.config.tenantAliases || {};
+    const aliasKey = Object.keys(aliases).find((a) => a.toLowerCase() === ref.toLowerCase());
+    const target = (aliasKey ? aliases[aliasKey] : ref).toLowerCase();
+
+    const connections = await this.getKnownConnections();
+    const match = connections.find(
+      (c) => c.tenantId.toLowerCase() === target || c.tenantName.toLowerCase() === target
+    );
+    if (!match) {
+      const known = [
+        ...connections.map((c) => c.tenantName),
+        ...Object.keys(aliases).map((a) => `${a} (alias)`),
+      ];
+      throw new Error(`Unknown tenant "${ref}". Known: ${known.join(", ") || "none"}`);
+    }
+    return match;
+  }
+
+  /**
+   * Settings from xero.tenantSettings in config.json for an organisation.
+   * Keys may be a tenant ID, organisation name or alias.
+   *
+   * @param tenantId - Resolved tenant ID
+   */
+  private async getTenantSettings(tenantId: string): Promise<TenantSettings> {
+    for (const [ref, settings] of Object.entries(this.config.tenantSettings || {})) {
+      if (ref === tenantId) {
+        return settings;
+      }
+      const connection = await this.resolveTenant(ref).catch(() => null);
+      if (connection?.tenantId === tenantId) {
+        return settings;
+      }
+    }
+    return {};
+  }
+
+  /**
+   * Makes an organisation the persisted default for later commands.
+   *
+   * @param ref - Tenant ID, organisation name or alias
+   * @returns The selected connection
+   */
+  async useTenant(ref: string): Promise<XeroConnection> {
+    const connection = await this.resolveTenant(ref);
+    this.tenantId = connection.tenantId;
+    this.tenantChosen = true;
+    this.saveTenantId(connection.tenantId, true);
+    return connection;
+  }
+
+  /**
+   * Returns the persisted default organisation, if one has been chosen.
+   */
+  async getDefaultTenant(): Promise<XeroConnection | null> {
+    if (!this.tenantId) {
+      return null;
+    }
+    const connections = await this.getKnownConnections();
+    return connections.find((c) => c.tenantId === this.tenantId) || null;
+  }
+
+  /**
+   * Organisations written to (outside dry-run) since the client was created.
+   */
+  async getWrittenTenants(): Promise<XeroConnection[]> {
+    if (this.writtenTenantIds.size === 0) {
+      return [];
+    }
+    const connections = await this.getKnownConnections();
+    return [...this.writtenTenantIds].map(
+      (tenantId) =>
+        connections.find((c) => c.tenantId === tenantId) ||
+        ({ tenantId, tenantName: "(unknown organisation)" } as XeroConnection)
+    );
   }
 
   // ==================== HTTP Request Handler ====================
 
   /**
    * Make an authenticated request to the Xero API
+   *
+   * Requests are capped per tenant (maxConcurrentRequests). 429 responses are
+   * retried after Retry-After; 5xx and network failures are retried with
+   * jittered exponential backoff, up to maxRetries attempts. POST/PUT requests
+   * carry an Idempotency-Key (so they are safe to retry). Creates and writes
+   * under an explicit key are journalled: a key that already completed
+   * returns the records it wrote, re-read, without resending; `unjournalled`
+   * writes always go out with a fresh key.
+   * Pass `accept` (e.g. "application/pdf") to get a non-JSON response as a
+   * Buffer; a Buffer body is sent as-is (set Content-Type in `headers`).
    */
   private async request<T>(
     method: string,
     endpoint: string,
-    body?: Record<string, any>,
+    body?: Record<string, any> | Buffer,
     queryParams?: Record<string, string>,
-    options?: { tenantId?: string; skipTenant?: boolean }
+    options?: {
+      tenantId?: string;
+      skipTenant?: boolean;
+      headers?: Record<string, string>;
+      accept?: string;
+      unjournalled?: boolean;
+    }
   ): Promise<T> {
-    const accessToken = await this.getAccessToken();
-
     // Build URL
-    let url = endpoint.startsWith("http") ? endpoint : `${XERO_API_BASE}${endpoint}`;
+    let url = endpoint.startsWith("http") ? endpoint : `${this.endpoints.apiBaseUrl}${endpoint}`;
     if (queryParams) {
       const params = new URLSearchParams();
       for (const [key, value] of Object.entries(queryParams)) {
@@ -331,70 +982,412 @@ export class XeroClient {
       }
     }
 
-    // Build headers
+    // Resolve tenant unless skipped (e.g., for connections endpoint)
+    const isWrite = method.toUpperCase() !== "GET";
+    const tenantId = options?.skipTenant
+      ? undefined
+      : await this.getTenantId(options?.tenantId, { forWrite: isWrite });
+
+    if (this.dryRun && isWrite) {
+      if (Buffer.isBuffer(body)) {
+        this.plannedRequests.push({
+          method,
+          endpoint,
+          tenantId,
+          queryParams,
+          body: { contentType: options?.headers?.["Content-Type"], bytes: body.length },
+        });
+        return {} as T;
+      }
+      this.plannedRequests.push({ method, endpoint, tenantId, queryParams, body });
+      const collection = noteableCollection(endpoint);
+      if (this.writeNote && collection) {
+        this.noteSideEffect(`History note added to the ${collection} written: "${this.writeNote}"`);
+      }
+      // Echo the payload so callers can keep building dependent requests
+      return (body || {}) as T;
+    }
+
+    if (isWrite && tenantId) {
+      this.writtenTenantIds.add(tenantId);
+    }
+
     const headers: Record<string, string> = {
-      Authorization: `Bearer ${accessToken}`,
-      "Content-Type": "application/json",
-      Accept: "application/json",
+      ...(options?.accept ? { Accept: options.accept } : {}),
+      ...options?.headers,
     };
+    // Non-JSON responses (e.g. PDFs) come back as a Buffer
+    const binary = !!options?.accept && !/json/i.test(options.accept);
+    const idempotency = !IDEMPOTENT_METHODS.has(method.toUpperCase())
+      ? null
+      : options?.unjournalled
+        ? { key: randomUUID(), replayable: false }
+        : this.nextIdempotencyKey(method, endpoint, tenantId, queryParams, body);
+
+    if (!idempotency) {
+      return this.send<T>(method, url, endpoint, tenantId, headers, body, method.toUpperCase() === "GET", binary);
+    }
 
-    // Add tenant ID header unless skipped (e.g., for connections endpoint)
-    if (!options?.skipTenant) {
-      const tenantId = await this.getTenantId(options?.tenantId);
-      headers["Xero-Tenant-Id"] = tenantId;
+    headers["Idempotency-Key"] = idempotency.key;
+    if (!idempotency.replayable) {
+      const result = await this.send<T>(method, url, endpoint, tenantId, headers, body, true, binary);
+      await this.addChangeNotes(endpoint, result, tenantId);
+      return result;
     }
 
-    // Make request
-    const fetchOptions: RequestInit = {
+    const journal = this.loadJournal();
+    const entry = journal[idempotency.key];
+    if (entry?.status === "completed") {
+      return this.replayWrite<T>(idempotency.key, entry, tenantId);
+    }
+
+    journal[idempotency.key] = {
       method,
-      headers,
+      endpoint,
+      tenantId,
+      status: "pending",
+      createdAt: new Date().toISOString(),
     };
+    this.saveJournal(journal);
 
-    if (body) {
-      fetchOptions.body = JSON.stringify(body);
+    try {
+      const result = await this.send<T>(method, url, endpoint, tenantId, headers, body, true, binary);
+      this.updateJournal(idempotency.key, (current) => ({
+        ...current,
+        status: "completed",
+        completedAt: new Date().toISOString(),
+        recordIds: writtenRecordIds(endpoint, result),
+      }));
+      await this.addChangeNotes(endpoint, result, tenantId);
+      return result;
+    } catch (e) {
+      // Leave no pending entry behind: a corrected payload must be sendable again
+      this.updateJournal(idempotency.key, () => undefined);
+      throw e;
     }
+  }
 
-    const response = await fetch(url, fetchOptions);
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`Xero API error (${response.status}): ${errorText}`);
+  /**
+   * Answer a write the journal shows as completed: re-read the records it
+   * returned (the journal keeps only their IDs) instead of sending it again
+   */
+  private async replayWrite<T>(key: string, entry: IdempotencyJournalEntry, tenantId: string | undefined): Promise<T> {
+    this.replayedWrites.push(
+      `${entry.method} ${entry.endpoint} already completed at ${entry.completedAt} (Idempotency-Key ${key})`
+    );
+    const collection = entry.endpoint.split("?")[0].split("/").filter(Boolean)[0];
+    const records = [];
+    for (const id of entry.recordIds || []) {
+      const response = await this.request<Record<string, any[]>>("GET", `/${collection}/${id}`, undefined, undefined, {
+        tenantId,
+      });
+      records.push(...(response[collection] || []));
     }
-
-    return response.json() as Promise<T>;
+    return (records.length > 0 ? { [collection]: records } : {}) as T;
   }
 
-  // ============================================
-  // CONNECTIONS
-  // ============================================
-
   /**
-   * Gets connected Xero organisations.
-   *
-   * Used to discover available tenants for API calls.
-   *
-   * @returns Array of connected organisation objects
-   *
+   * Send a request, retrying throttled and transient failures
+   */
+  private async send<T>(
+    method: string,
+    url: string,
+    endpoint: string,
+    tenantId: string | undefined,
+    extraHeaders: Record<string, string>,
+    body: Record<string, any> | Buffer | undefined,
+    retryTransient: boolean,
+    binary = false
+  ): Promise<T> {
+    const limiterKey = tenantId || APP_LIMITER_KEY;
+    const maxRetries = this.config.maxRetries ?? DEFAULT_MAX_RETRIES;
+
+    for (let attempt = 0; ; attempt++) {
+      let response: Response;
+      try {
+        response = await this.getLimiter(limiterKey).run(async () => {
+          const accessToken = await this.getAccessToken();
+
+          // Build headers
+          const headers: Record<string, string> = {
+            Authorization: `Bearer ${accessToken}`,
+            "Content-Type": "application/json",
+            Accept: "application/json",
+            ...extraHeaders,
+          };
+          if (tenantId) {
+            headers["Xero-Tenant-Id"] = tenantId;
+          }
+
+          // Make request
+          const fetchOptions: RequestInit = {
+            method,
+            headers,
+          };
+
+          if (Buffer.isBuffer(body)) {
+            fetchOptions.body = new Uint8Array(body);
+          } else if (body) {
+            fetchOptions.body = JSON.stringify(body);
+          }
+
+          return this.transport(url, fetchOptions);
+        });
+      } catch (e) {
+        // Network-level failure (DNS, reset connection, etc.)
+        if (retryTransient && attempt < maxRetries) {
+          await sleep(this.backoffDelay(attempt));
+          continue;
+        }
+        throw e;
+      }
+
+      this.recordRateLimits(limiterKey, response.headers);
+
+      // Nothing changed since If-Modified-Since
+      if (response.status === 304) {
+        return {} as T;
+      }
+
+      if (response.ok && binary) {
+        return Buffer.from(await response.arrayBuffer()) as T;
+      }
+
+      if (response.ok) {
+        // Some actions (e.g. emailing an invoice) answer 204 with no body
+        const text = await response.text();
+        return (text ? JSON.parse(text) : {}) as T;
+      }
+
+      if (attempt < maxRetries) {
+        const delay = this.retryDelay(response, attempt, retryTransient);
+        if (delay !== null) {
+          // Drain the body so the connection can be reused
+          await response.text();
+          await sleep(delay);
+          continue;
+        }
+      }
+
+      const retryAfter = parseInt(response.headers.get("Retry-After") || "", 10);
+      throw createXeroApiError({
+        status: response.status,
+        method,
+        endpoint,
+        correlationId: response.headers.get("Xero-Correlation-Id") || undefined,
+        retryAfterSeconds: isNaN(retryAfter) ? undefined : retryAfter,
+        responseBody: await response.text(),
+      });
+    }
+  }
+
+  /**
+   * Get (or create) the concurrency limiter for a tenant
+   */
+  private getLimiter(key: string): ConcurrencyLimiter {
+    let limiter = this.limiters.get(key);
+    if (!limiter) {
+      limiter = new ConcurrencyLimiter(
+        this.config.maxConcurrentRequests ?? DEFAULT_MAX_CONCURRENT_REQUESTS
+      );
+      this.limiters.set(key, limiter);
+    }
+    return limiter;
+  }
+
+  /**
+   * Capture Xero's remaining-call headers for a tenant
+   */
+  private recordRateLimits(key: string, headers: Headers): void {
+    const readInt = (name: string): number | undefined => {
+      const value = headers.get(name);
+      return value === null ? undefined : parseInt(value, 10);
+    };
+
+    const status: RateLimitStatus = {
+      minuteRemaining: readInt("X-MinLimit-Remaining"),
+      dayRemaining: readInt("X-DayLimit-Remaining"),
+      appMinuteRemaining: readInt("X-AppMinLimit-Remaining"),
+      updatedAt: new Date().toISOString(),
+    };
+
+    if (
+      status.minuteRemaining !== undefined ||
+      status.dayRemaining !== undefined ||
+      status.appMinuteRemaining !== undefined
+    ) {
+      this.rateLimits.set(key, status);
+    }
+  }
+
+  /**
+   * Work out how long to wait before retrying a failed response.
+   * Returns null when the response should not be retried.
+   */
+  private retryDelay(response: Response, attempt: number, retryTransient: boolean): number | null {
+    if (response.status === 429) {
+      // Daily limit won't reset within any sensible wait
+      if (response.headers.get("X-Rate-Limit-Problem")?.toLowerCase() === "day") {
+        return null;
+      }
+
+      const retryAfter = parseInt(response.headers.get("Retry-After") || "", 10);
+      if (!isNaN(retryAfter)) {
+        const delay = retryAfter * 1000;
+        return delay <= MAX_RETRY_AFTER_MS ? delay : null;
+      }
+      return this.backoffDelay(attempt);
+    }
+
+    if (response.status >= 500 && retryTransient) {
+      return this.backoffDelay(attempt);
+    }
+
+    return null;
+  }
+
+  /**
+   * Exponential backoff with full jitter
+   */
+  private backoffDelay(attempt: number): number {
+    const ceiling = Math.min(RETRY_MAX_DELAY_MS, RETRY_BASE_DELAY_MS * 2 ** attempt);
+    return Math.floor(Math.random() * ceiling);
+  }
+
+  // ==================== Pagination ====================
+
+  /**
+   * Build the standard query params for a list endpoint
+   */
+  private buildListParams(options?: ListOptions): Record<string, string> {
+    const queryParams: Record<string, string> = {};
+    if (options?.page) queryParams.page = options.page.toString();
+    if (options?.where) queryParams.where = options.where;
+    if (options?.order) queryParams.order = options.order;
+    return queryParams;
+  }
+
+  /**
+   * Request options for a list endpoint (tenant + If-Modified-Since)
+   */
+  private listRequestOptions(options?: ListOptions & { tenantId?: string }) {
+    return {
+      tenantId: options?.tenantId,
+      headers: options?.modifiedSince
+        ? { "If-Modified-Since": toXeroDateTime(options.modifiedSince) }
+        : undefined,
+    };
+  }
+
+  /**
+   * Walk a paged endpoint from options.page until a short page comes back,
+   * yielding records one at a time (stops early once options.limit is reached).
+   */
+  private async *paginate<T>(
+    fetchPage: (page: number) => Promise<T[]>,
+    options?: ListOptions
+  ): AsyncGenerator<T> {
+    let remaining = options?.limit ?? Infinity;
+
+    for (let page = options?.page || 1; remaining > 0; page++) {
+      const records = await fetchPage(page);
+      for (const record of records.slice(0, remaining)) {
+        yield record;
+      }
+      remaining -= records.length;
+
+      if (records.length < PAGE_SIZE) {
+        return;
+      }
+    }
+  }
+
+  /**
+   * Options for fetching one page on behalf of an iterator
+   */
+  private pageOptions<O extends ListOptions>(options: O | undefined, page: number): O {
+    return { ...(options as O), page, all: false, limit: undefined };
+  }
+
+  // ============================================
+  // CONNECTIONS
+  // ============================================
+
+  /**
+   * Gets connected Xero organisations.
+   *
+   * Used to discover available tenants for API calls.
+   *
+   * @returns Array of connected organisation objects
+   *
    * @example
    * const connections = await client.getConnections();
    * // Returns: [{ tenantId, tenantName, ... }]
    */
   async getConnections(): Promise<XeroConnection[]> {
-    const accessToken = await this.getAccessToken();
-
-    const response = await fetch(XERO_CONNECTIONS_URL, {
-      headers: {
-        Authorization: `Bearer ${accessToken}`,
-        "Content-Type": "application/json",
-      },
-    });
+    this.connections = await this.request<XeroConnection[]>(
+      "GET",
+      this.endpoints.connectionsUrl,
+      undefined,
+      undefined,
+      { skipTenant: true }
+    );
+    return this.connections;
+  }
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`Failed to get connections (${response.status}): ${errorText}`);
-    }
+  /**
+   * Runs an operation against several connected organisations.
+   *
+   * Organisations are queried with bounded concurrency, and a failure in one
+   * is reported in its entry without losing the others' results.
+   *
+   * @param fn - Operation to run, given each tenant ID
+   * @param options.tenants - Tenant IDs, names or aliases to include (default: all connections)
+   * @param options.concurrency - Organisations to query at once (default: 3)
+   * @returns Results keyed by tenant name
+   *
+   * @example
+   * const totals = await client.forEachTenant((tenantId) => client.getProfitAndLoss({ tenantId }));
+   */
+  async forEachTenant<T>(
+    fn: (tenantId: string) => Promise<T>,
+    options?: { tenants?: string[]; concurrency?: number }
+  ): Promise<Record<string, TenantResult<T>>> {
+    const selected = options?.tenants?.length
+      ? await Promise.all(options.tenants.map((ref) => this.resolveTenant(ref)))
+      : await this.getConnections();
+
+    const results = await mapWithConcurrency(
+      selected,
+      options?.concurrency ?? DEFAULT_FAN_OUT_CONCURRENCY,
+      async (connection): Promise<TenantResult<T>> => {
+        try {
+          return {
+            tenantId: connection.tenantId,
+            ok: true,
+            result: await fn(connection.tenantId),
+          };
+        } catch (error) {
+          return {
+            tenantId: connection.tenantId,
+            ok: false,
+            error: error instanceof XeroApiError || error instanceof XeroPreflightError
+              ? error.toJSON()
+              : { message: (error as Error).message },
+          };
+        }
+      }
+    );
 
-    return response.json() as Promise<XeroConnection[]>;
+    const keyed: Record<string, TenantResult<T>> = {};
+    selected.forEach((connection, i) => {
+      // Disambiguate organisations that share a name
+      const key = connection.tenantName in keyed
+        ? `${connection.tenantName} (${connection.tenantId})`
+        : connection.tenantName;
+      keyed[key] = results[i];
+    });
+    return keyed;
   }
 
   // ============================================
@@ -409,19 +1402,46 @@ export class XeroClient {
     return [
       // Connections
       { name: "get-connections", description: "Get connected Xero organisations" },
+      { name: "use-tenant", description: "Set the default organisation (by name, alias or ID)" },
 
       // Invoices
       { name: "list-invoices", description: "List invoices with pagination and filtering" },
       { name: "get-invoice", description: "Get a specific invoice by ID" },
       { name: "create-invoice", description: "Create a new invoice" },
       { name: "update-invoice", description: "Update an existing invoice" },
+      { name: "import-invoices", description: "Create invoices in bulk from a CSV file, with a per-row report" },
+      { name: "void-invoice", description: "Void an approved invoice after checking payments and allocations" },
+      { name: "delete-invoice", description: "Delete a draft or submitted invoice" },
+      { name: "email-invoice", description: "Email an approved invoice (or every unsent one) to its contact" },
+      { name: "get-online-invoice-url", description: "Get the customer-facing online invoice link" },
+      { name: "download-pdf", description: "Download an invoice, quote, credit note or purchase order as PDF" },
+
+      // Repeating Invoices
+      { name: "list-repeating-invoices", description: "List repeating invoice templates" },
+      { name: "get-repeating-invoice", description: "Get a repeating invoice template by ID" },
+      { name: "create-repeating-invoice", description: "Create a repeating invoice template with a schedule" },
+      { name: "update-repeating-invoice", description: "Update a repeating invoice's schedule, lines, reference or status" },
+      { name: "project-repeating-invoices", description: "List the invoices repeating templates will generate over the next N months" },
+
+      // Attachments
+      { name: "list-attachments", description: "List files attached to a transaction or contact" },
+      { name: "download-attachment", description: "Download an attachment" },
+      { name: "upload-attachment", description: "Attach a file to a transaction or contact" },
 
       // Contacts
       { name: "list-contacts", description: "List contacts with pagination and filtering" },
       { name: "get-contact", description: "Get a specific contact by ID" },
+      { name: "resolve-contact", description: "Find a contact by ID, number, email or name, with near-matches" },
+      { name: "find-duplicate-contacts", description: "Group likely duplicate contacts and suggest which to keep" },
+      { name: "archive-contact", description: "Archive a contact after checking for open invoices, bills and credit" },
+      { name: "unarchive-contact", description: "Restore an archived contact" },
       { name: "create-contact", description: "Create a new contact" },
       { name: "update-contact", description: "Update an existing contact" },
 
+      // History
+      { name: "get-history", description: "Get the history (audit trail) of an invoice, contact, payment or other record" },
+      { name: "add-note", description: "Add a note to a record's history" },
+
       // Accounts
       { name: "list-accounts", description: "List chart of accounts" },
 
@@ -450,6 +1470,7 @@ export class XeroClient {
       { name: "get-trial-balance", description: "Get Trial Balance report" },
       { name: "get-aged-receivables", description: "Get Aged Receivables report" },
       { name: "get-aged-payables", description: "Get Aged Payables report" },
+      { name: "get-contact-statement", description: "Customer statement with running balance and ageing (JSON, CSV or HTML)" },
 
       // Quotes (additional)
       { name: "list-quotes", description: "List quotes" },
@@ -461,6 +1482,13 @@ export class XeroClient {
 
       // Contact Groups (additional)
       { name: "list-contact-groups", description: "List contact groups" },
+      { name: "create-contact-group", description: "Create a contact group" },
+      { name: "list-contact-group-members", description: "List the contacts in a contact group" },
+      { name: "add-to-contact-group", description: "Add contacts by ID or filter to a contact group" },
+      { name: "remove-from-contact-group", description: "Remove contacts by ID or filter from a contact group" },
+
+      // Sync
+      { name: "sync", description: "Return records changed since the last sync (per tenant/entity)" },
 
       // Cache
       { name: "clear-cache", description: "Clear all cached data" },
@@ -478,6 +1506,9 @@ export class XeroClient {
    *
    * @param options - Filter and pagination options
    * @param options.page - Page number for pagination
+   * @param options.all - Fetch every page and merge the results
+   * @param options.limit - Maximum records to return (walks pages)
+   * @param options.modifiedSince - Only records modified since this timestamp (ISO)
    * @param options.where - Xero-style where clause (e.g., 'Status=="AUTHORISED"')
    * @param options.order - Sort order (e.g., 'Date DESC')
    * @param options.tenantId - Override tenant ID
@@ -486,23 +1517,35 @@ export class XeroClient {
    * @example
    * // Get unpaid invoices
    * const invoices = await client.listInvoices({ where: 'AmountDue>0' });
+   *
+   * // Stream a large ledger
+   * for await (const invoice of client.iterateInvoices({ where: 'Status=="PAID"' })) { ... }
    */
   async listInvoices(options?: ListOptions & { tenantId?: string }): Promise<Invoice[]> {
-    const queryParams: Record<string, string> = {};
-    if (options?.page) queryParams.page = options.page.toString();
-    if (options?.where) queryParams.where = options.where;
-    if (options?.order) queryParams.order = options.order;
+    if (options?.all || options?.limit) {
+      return collect(this.iterateInvoices(options));
+    }
 
     const response = await this.request<InvoicesResponse>(
       "GET",
       "/Invoices",
       undefined,
-      queryParams,
-      { tenantId: options?.tenantId }
+      this.buildListParams(options),
+      this.listRequestOptions(options)
     );
     return response.Invoices || [];
   }
 
+  /**
+   * Iterates invoices across all pages, fetching one page at a time.
+   *
+   * @param options - Filter options; page sets the starting page, limit caps the total
+   * @returns Async iterator of invoice objects
+   */
+  async *iterateInvoices(options?: ListOptions & { tenantId?: string }): AsyncGenerator<Invoice> {
+    yield* this.paginate((page) => this.listInvoices(this.pageOptions(options, page)), options);
+  }
+
   /**
    * Retrieves a single invoice by ID.
    *
@@ -521,110 +1564,801 @@ export class XeroClient {
     return response.Invoices?.[0] || null;
   }
 
+  /**
+   * Emails an invoice to its contact using the organisation's invoice
+   * template. Xero marks it as sent (SentToContact) itself, so the email is
+   * the only write - nothing after it can fail and prompt a second send. The
+   * invoice is re-read afterwards for the flag Xero set.
+   *
+   * Only sales invoices that are SUBMITTED, AUTHORISED or PAID can be sent;
+   * anything else throws XeroPreflightError before the email is requested.
+   *
+   * @param invoiceId - Xero invoice ID (GUID) or invoice number
+   * @param tenantId - Override tenant ID
+   * @returns The invoice that was sent
+   */
+  async emailInvoice(invoiceId: string, tenantId?: string): Promise<EmailInvoiceResult> {
+    const invoice = await this.getInvoice(invoiceId, tenantId);
+    if (!invoice) {
+      throw new XeroPreflightError(`Invoice ${invoiceId} not found`, []);
+    }
+    const label = invoice.InvoiceNumber || invoice.InvoiceID;
+    if (invoice.Type !== "ACCREC") {
+      throw new XeroPreflightError(`Invoice ${label} is a bill (ACCPAY); only sales invoices can be emailed`, []);
+    }
+    if (!EMAILABLE_INVOICE_STATUSES.has(invoice.Status || "")) {
+      throw new XeroPreflightError(
+        `Invoice ${label} is ${invoice.Status}; only ${[...EMAILABLE_INVOICE_STATUSES].join(", ")} invoices can be emailed`,
+        invoice.Status === "DRAFT" ? ["Approve it first, e.g. update-invoice --status AUTHORISED"] : []
+      );
+    }
+
+    await this.request<Record<string, never>>(
+      "POST",
+      `/Invoices/${invoice.InvoiceID}/Email`,
+      {},
+      undefined,
+      { tenantId }
+    );
+
+    // The email has gone either way; a failed re-read only leaves the flag out
+    const sent = await this.getInvoice(invoice.InvoiceID, tenantId).catch(() => null);
+    return {
+      InvoiceID: invoice.InvoiceID,
+      InvoiceNumber: invoice.InvoiceNumber,
+      Contact: invoice.Contact?.Name,
+      Status: invoice.Status,
+      SentToContact: sent?.SentToContact,
+    };
+  }
+
+  /**
+   * Lists sales invoices that are AUTHORISED but not yet sent to the contact.
+   *
+   * @param tenantId - Override tenant ID
+   * @returns Every matching invoice (all pages)
+   */
+  async listUnsentInvoices(tenantId?: string): Promise<Invoice[]> {
+    return this.listInvoices({
+      where: 'Type=="ACCREC" && Status=="AUTHORISED" && SentToContact==false',
+      all: true,
+      tenantId,
+    });
+  }
+
+  /**
+   * Gets the customer-facing online invoice link.
+   *
+   * Xero only issues links for sales invoices that are not DRAFT.
+   *
+   * @param invoiceId - Xero invoice ID (GUID)
+   * @param tenantId - Override tenant ID
+   * @returns The online invoice URL, or null if Xero returned none
+   */
+  async getOnlineInvoiceUrl(invoiceId: string, tenantId?: string): Promise<string | null> {
+    const response = await this.request<OnlineInvoicesResponse>(
+      "GET",
+      `/Invoices/${invoiceId}/OnlineInvoice`,
+      undefined,
+      undefined,
+      { tenantId }
+    );
+    return response.OnlineInvoices?.[0]?.OnlineInvoiceUrl || null;
+  }
+
+  /**
+   * Accounts, tax rates and (optionally) item codes to check line items
+   * against; load once when validating many invoices.
+   */
+  private async lineItemReferences(tenantId: string | undefined, withItems: boolean): Promise<LineItemReferences> {
+    const [accounts, taxRates, items] = await Promise.all([
+      this.listAccounts({ tenantId }),
+      this.listTaxRates(tenantId),
+      withItems ? this.listItems(tenantId) : Promise.resolve([]),
+    ]);
+    return {
+      accountsByCode: new Map(accounts.filter((a) => a.Code).map((a) => [a.Code!.toUpperCase(), a])),
+      taxRatesByType: new Map(taxRates.map((t) => [t.TaxType.toUpperCase(), t])),
+      itemCodes: new Set(items.map((i) => i.Code.toUpperCase())),
+    };
+  }
+
+  /**
+   * Checks line items against the organisation's chart of accounts, tax
+   * rates and items before an invoice is posted.
+   *
+   * @param lineItems - Line items to check
+   * @param tenantId - Override tenant ID
+   * @param references - Preloaded lookups (see lineItemReferences)
+   * @returns One message per problem; empty if every line is usable
+   */
+  async validateLineItems(
+    lineItems: LineItemInput[],
+    tenantId?: string,
+    references?: LineItemReferences
+  ): Promise<string[]> {
+    const { accountsByCode, taxRatesByType, itemCodes } = references
+      || await this.lineItemReferences(tenantId, lineItems.some((item) => item.itemCode));
+
+    const problems: string[] = [];
+    lineItems.forEach((item, index) => {
+      const label = `Line ${index + 1}`;
+      if (item.accountCode) {
+        const account = accountsByCode.get(item.accountCode.toUpperCase());
+        if (!account) {
+          problems.push(`${label}: account code "${item.accountCode}" is not in the chart of accounts`);
+        } else if (account.Status === "ARCHIVED") {
+          problems.push(`${label}: account ${account.Code} (${account.Name}) is archived`);
+        } else if (account.Type === "BANK") {
+          problems.push(`${label}: account ${account.Code} (${account.Name}) is a bank account`);
+        }
+      }
+      if (item.taxType) {
+        const taxRate = taxRatesByType.get(item.taxType.toUpperCase());
+        if (!taxRate) {
+          problems.push(`${label}: tax type "${item.taxType}" does not exist`);
+        } else if (taxRate.Status && taxRate.Status !== "ACTIVE") {
+          problems.push(`${label}: tax type ${taxRate.TaxType} (${taxRate.Name}) is ${taxRate.Status.toLowerCase()}`);
+        }
+      }
+      if (item.itemCode && !itemCodes.has(item.itemCode.toUpperCase())) {
+        problems.push(`${label}: item code "${item.itemCode}" does not exist`);
+      }
+    });
+    return problems;
+  }
+
+  /**
+   * XeroContactNotFoundError for a reference, with near-matches as candidates
+   */
+  private async contactNotFound(ref: string, tenantId: string, advice: string): Promise<XeroContactNotFoundError> {
+    const candidates = await this.findSimilarContacts(ref, tenantId);
+    const hint = candidates.length > 0 ? ` Did you mean: ${candidates.map((c) => c.Name).join(", ")}?` : "";
+    return new XeroContactNotFoundError(`No contact matches "${ref}".${hint} ${advice}`, candidates);
+  }
+
+  /**
+   * Fill in default account codes, validate, and convert line items to Xero's shape.
+   *
+   * Lines without an account or item code fall back to the contact's default
+   * account, then xero.tenantSettings. Throws XeroPreflightError listing
+   * every problem.
+   */
+  private async prepareLineItems(
+    items: LineItemInput[],
+    type: "ACCREC" | "ACCPAY",
+    contact: Contact | undefined,
+    tenantId: string,
+    references?: LineItemReferences
+  ): Promise<LineItem[]> {
+    const settings = await this.getTenantSettings(tenantId);
+    const defaultAccountCode = type === "ACCREC"
+      ? contact?.SalesDefaultAccountCode || settings.defaultSalesAccountCode
+      : contact?.PurchasesDefaultAccountCode || settings.defaultPurchasesAccountCode;
+    const lineItems = items.map((item) => ({
+      ...item,
+      accountCode: item.accountCode || (item.itemCode ? undefined : defaultAccountCode),
+    }));
+
+    const problems = await this.validateLineItems(lineItems, tenantId, references);
+    lineItems.forEach((item, index) => {
+      if (!item.accountCode && !item.itemCode) {
+        const setting = type === "ACCREC" ? "defaultSalesAccountCode" : "defaultPurchasesAccountCode";
+        problems.push(
+          `Line ${index + 1}: no account code - pass accountCode or itemCode, or set xero.tenantSettings.<tenant>.${setting} in config.json`
+        );
+      }
+    });
+    if (problems.length > 0) {
+      throw new XeroPreflightError(`${problems.length} invalid line item(s)`, problems);
+    }
+
+    return lineItems.map((item) => ({
+      Description: item.description,
+      Quantity: item.quantity,
+      UnitAmount: item.unitAmount,
+      AccountCode: item.accountCode,
+      ItemCode: item.itemCode,
+      TaxType: item.taxType,
+      DiscountRate: item.discountRate,
+      Tracking: item.tracking?.map((t) => ({ Name: t.name, Option: t.option })),
+    }));
+  }
+
   /**
    * Creates a new invoice.
    *
-   * Automatically creates the contact if it doesn't exist.
+   * The contact is resolved by ID, number, email or name (see resolveContact).
+   * If nothing matches, XeroContactNotFoundError lists near-matches unless
+   * createContactIfMissing is set, in which case it is created. Lines without an
+   * account or item code use the contact's default account, then
+   * xero.tenantSettings from config.json. Line items are checked with
+   * validateLineItems first; any problem throws XeroPreflightError without
+   * sending a write.
+   *
+   * @param options - Invoice creation options
+   * @param options.contactName - ContactID, contact number, email or name (required)
+   * @param options.createContactIfMissing - Create the contact when nothing matches
+   * @param options.type - Invoice type: "ACCREC" (sales) or "ACCPAY" (purchase)
+   * @param options.lineItems - Array of line items (description, quantity, unitAmount,
+   *   accountCode, itemCode, taxType, discountRate, tracking)
+   * @param options.date - Invoice date (YYYY-MM-DD)
+   * @param options.dueDate - Due date (YYYY-MM-DD)
+   * @param options.reference - Invoice reference
+   * @param options.lineAmountTypes - "Exclusive", "Inclusive" or "NoTax"
+   * @param options.currencyCode - ISO currency code
+   * @param options.brandingThemeId - Branding theme ID
+   * @param options.status - "DRAFT" (default), "SUBMITTED" or "AUTHORISED"
+   * @param options.tenantId - Override tenant ID
+   * @returns Created invoice object
+   *
+   * @invalidates contacts/* (when a contact is created)
+   *
+   * @example
+   * const invoice = await client.createInvoice({
+   *   contactName: "Customer Name",
+   *   lineItems: [{ description: "Item", quantity: 1, unitAmount: 100 }],
+   *   dueDate: "2024-02-01"
+   * });
+   */
+  async createInvoice(options: CreateInvoiceOptions & { tenantId?: string }): Promise<Invoice> {
+    const type = options.type || "ACCREC";
+    const tenantId = await this.getTenantId(options.tenantId, { forWrite: true });
+
+    const match = await this.resolveContact(options.contactName, tenantId);
+    const contact = match?.contact;
+    if (!contact && (!options.createContactIfMissing || GUID_PATTERN.test(options.contactName.trim()))) {
+      throw await this.contactNotFound(options.contactName, tenantId, "Pass --create-contact-if-missing to create it.");
+    }
+
+    // Reject unusable lines before anything (including a new contact) is written
+    const lineItems = await this.prepareLineItems(options.lineItems, type, contact, tenantId);
+
+    let contactRef: { ContactID?: string; Name?: string };
+    if (contact) {
+      contactRef = { ContactID: contact.ContactID };
+    } else {
+      // Only reached with createContactIfMissing
+      this.noteSideEffect(`Contact "${options.contactName}" not found - it will be created`);
+      const newContact = await this.createContact({
+        name: options.contactName,
+        tenantId,
+      });
+      // Dry runs have no ContactID yet; reference the pending contact by name
+      contactRef = newContact.ContactID
+        ? { ContactID: newContact.ContactID }
+        : { Name: options.contactName };
+    }
+
+    const invoiceBody = {
+      Type: type,
+      Contact: contactRef,
+      LineItems: lineItems,
+      Date: options.date,
+      DueDate: options.dueDate,
+      Reference: options.reference,
+      LineAmountTypes: options.lineAmountTypes,
+      CurrencyCode: options.currencyCode,
+      BrandingThemeID: options.brandingThemeId,
+      Status: options.status || "DRAFT",
+    };
+
+    const response = await this.request<InvoicesResponse>(
+      "POST",
+      "/Invoices",
+      { Invoices: [invoiceBody] },
+      undefined,
+      { tenantId }
+    );
+
+    if (!response.Invoices?.[0]) {
+      throw new Error("Failed to create invoice - no invoice returned");
+    }
+
+    return response.Invoices[0];
+  }
+
+  /**
+   * Updates an existing invoice.
+   *
+   * @param invoiceId - Xero invoice ID (GUID)
+   * @param updates - Fields to update
+   * @param updates.status - New status: "DRAFT", "SUBMITTED" or "AUTHORISED"
+   *   (use voidInvoice / deleteInvoice to cancel)
+   * @param updates.reference - New reference
+   * @param updates.dueDate - New due date (YYYY-MM-DD)
+   * @param updates.tenantId - Override tenant ID
+   * @returns Updated invoice object
+   */
+  async updateInvoice(
+    invoiceId: string,
+    updates: { status?: InvoiceUpdateStatus; reference?: string; dueDate?: string; tenantId?: string }
+  ): Promise<Invoice> {
+    if (updates.status && !INVOICE_UPDATE_STATUSES.has(updates.status)) {
+      throw new XeroPreflightError(
+        `Status ${updates.status} can't be set with updateInvoice`,
+        ["Use void-invoice or delete-invoice to cancel an invoice"]
+      );
+    }
+
+    const invoiceBody: Record<string, any> = { InvoiceID: invoiceId };
+    if (updates.status) invoiceBody.Status = updates.status;
+    if (updates.reference) invoiceBody.Reference = updates.reference;
+    if (updates.dueDate) invoiceBody.DueDate = updates.dueDate;
+
+    const response = await this.request<InvoicesResponse>(
+      "POST",
+      `/Invoices/${invoiceId}`,
+      { Invoices: [invoiceBody] },
+      undefined,
+      { tenantId: updates.tenantId }
+    );
+
+    if (!response.Invoices?.[0]) {
+      throw new Error("Failed to update invoice - no invoice returned");
+    }
+
+    return response.Invoices[0];
+  }
+
+  /**
+   * Checks whether an invoice can be voided or deleted, without changing it.
+   *
+   * Xero only deletes DRAFT/SUBMITTED invoices and only voids AUTHORISED
+   * ones with nothing applied; payments, credit notes, prepayments and
+   * overpayments allocated to the invoice must be removed first.
+   *
+   * @param invoiceId - Xero invoice ID (GUID) or invoice number
+   * @param action - "void" or "delete"
+   * @param tenantId - Override tenant ID
+   * @returns The invoice and anything that blocks the action
+   */
+  async planInvoiceCancellation(
+    invoiceId: string,
+    action: "void" | "delete",
+    tenantId?: string
+  ): Promise<InvoiceCancellationPlan> {
+    const invoice = await this.getInvoice(invoiceId, tenantId);
+    if (!invoice) {
+      throw new XeroPreflightError(`Invoice ${invoiceId} not found`, []);
+    }
+    return { action, invoice, blockers: cancellationBlockers(invoice, action) };
+  }
+
+  /**
+   * Voids an approved invoice.
+   *
+   * @param invoiceId - Xero invoice ID (GUID) or invoice number
+   * @param tenantId - Override tenant ID
+   * @returns The voided invoice
+   * @throws XeroPreflightError listing what must be reversed first
+   */
+  async voidInvoice(invoiceId: string, tenantId?: string): Promise<Invoice> {
+    return this.cancelInvoice(invoiceId, "void", tenantId);
+  }
+
+  /**
+   * Deletes a draft or submitted invoice.
+   *
+   * @param invoiceId - Xero invoice ID (GUID) or invoice number
+   * @param tenantId - Override tenant ID
+   * @returns The deleted invoice
+   * @throws XeroPreflightError if the invoice is approved (void it instead)
+   */
+  async deleteInvoice(invoiceId: string, tenantId?: string): Promise<Invoice> {
+    return this.cancelInvoice(invoiceId, "delete", tenantId);
+  }
+
+  private async cancelInvoice(invoiceId: string, action: "void" | "delete", tenantId?: string): Promise<Invoice> {
+    const { invoice, blockers } = await this.planInvoiceCancellation(invoiceId, action, tenantId);
+    const label = invoice.InvoiceNumber || invoice.InvoiceID;
+    if (blockers.length > 0) {
+      throw new XeroPreflightError(`Invoice ${label} can't be ${action === "void" ? "voided" : "deleted"}`, blockers);
+    }
+
+    const response = await this.request<InvoicesResponse>(
+      "POST",
+      `/Invoices/${invoice.InvoiceID}`,
+      { Invoices: [{ InvoiceID: invoice.InvoiceID, Status: action === "void" ? "VOIDED" : "DELETED" }] },
+      undefined,
+      { tenantId }
+    );
+    if (!response.Invoices?.[0]) {
+      throw new Error(`Failed to ${action} invoice - no invoice returned`);
+    }
+    return response.Invoices[0];
+  }
+
+  /**
+   * Looks up invoices by number, in chunks (InvoiceNumbers filter).
+   *
+   * @returns Every invoice found, keyed by `<Type>:<InvoiceNumber>` - bill
+   * numbers are the supplier's, so several bills can share one
+   */
+  private async findInvoicesByNumber(numbers: string[], tenantId: string): Promise<Map<string, Invoice[]>> {
+    const found = new Map<string, Invoice[]>();
+    const unique = [...new Set(numbers)];
+    for (let i = 0; i < unique.length; i += INVOICE_NUMBER_LOOKUP_SIZE) {
+      const response = await this.request<InvoicesResponse>(
+        "GET",
+        "/Invoices",
+        undefined,
+        { InvoiceNumbers: unique.slice(i, i + INVOICE_NUMBER_LOOKUP_SIZE).join(",") },
+        { tenantId }
+      );
+      for (const invoice of response.Invoices || []) {
+        if (invoice.InvoiceNumber && invoice.Status !== "DELETED") {
+          const key = `${invoice.Type}:${invoice.InvoiceNumber}`;
+          found.set(key, [...(found.get(key) || []), invoice]);
+        }
+      }
+    }
+    return found;
+  }
+
+  /**
+   * Creates many invoices, reporting success or failure per import row.
+   *
+   * Invoices whose number already exists are skipped, so a corrected file
+   * can be re-run without duplicates. Bills only count as existing for the
+   * same supplier, since suppliers number their own bills. Contacts (which must exist) and line
+   * items are checked first, against accounts and tax rates loaded once;
+   * the rest are posted in batches of 50 with summarizeErrors=false so one
+   * bad invoice doesn't sink its batch. In dry-run mode valid rows are
+   * reported as "ready".
+   *
+   * @param invoices - Invoices grouped from import rows (see groupInvoiceRows)
+   * @param options.tenantId - Override tenant ID
+   * @returns Summary counts (per invoice) and one result per row
+   */
+  async importInvoices(
+    invoices: InvoiceImport[],
+    options?: { tenantId?: string }
+  ): Promise<ImportInvoicesResult> {
+    const tenantId = await this.getTenantId(options?.tenantId, { forWrite: true });
+    const results: ImportRowResult[] = [];
+    const outcomes = { created: 0, skipped: 0, failed: 0, ready: 0 };
+    const report = (invoice: InvoiceImport, status: ImportRowResult["status"], extra: Partial<ImportRowResult> = {}) => {
+      outcomes[status]++;
+      for (const row of invoice.rows) {
+        results.push({ row, invoiceNumber: invoice.invoiceNumber, status, ...extra });
+      }
+    };
+
+    const existing = await this.findInvoicesByNumber(invoices.map((i) => i.invoiceNumber), tenantId);
+    const references = await this.lineItemReferences(
+      tenantId,
+      invoices.some((invoice) => invoice.lineItems.some((item) => item.itemCode))
+    );
+    const contacts = new Map<string, Promise<ContactMatch | null>>();
+
+    // Batch results are matched to rows by invoice, not position: a replayed
+    // batch only brings back the invoices it created
+    const invoiceKey = (type: string | undefined, invoiceNumber: string | undefined, contactId: string | undefined) =>
+      `${type}:${invoiceNumber}:${contactId?.toLowerCase()}`;
+    const pending: Array<{ invoice: InvoiceImport; key: string; body: Record<string, unknown> }> = [];
+    const skip = (invoice: InvoiceImport, duplicate: Invoice) =>
+      report(invoice, "skipped", {
+        invoiceId: duplicate.InvoiceID,
+        errors: [`Invoice ${invoice.invoiceNumber} already exists (${duplicate.Status})`],
+      });
+    for (const invoice of invoices) {
+      const type = invoice.type || "ACCREC";
+      const sameNumber = existing.get(`${type}:${invoice.invoiceNumber}`) || [];
+      if (type === "ACCREC" && sameNumber.length > 0) {
+        skip(invoice, sameNumber[0]);
+        continue;
+      }
+
+      const key = invoice.contactName.trim().toLowerCase();
+      if (!contacts.has(key)) {
+        contacts.set(key, this.resolveContact(invoice.contactName, tenantId));
+      }
+      try {
+        const match = await contacts.get(key)!;
+        if (!match) {
+          throw await this.contactNotFound(invoice.contactName, tenantId, "Create the contact first.");
+        }
+        const duplicate = sameNumber.find((bill) => bill.Contact?.ContactID === match.contact.ContactID);
+        if (duplicate) {
+          skip(invoice, duplicate);
+          continue;
+        }
+        const lineItems = await this.prepareLineItems(invoice.lineItems, type, match.contact, tenantId, references);
+        pending.push({
+          invoice,
+          key: invoiceKey(type, invoice.invoiceNumber, match.contact.ContactID),
+          body: {
+            Type: type,
+            InvoiceNumber: invoice.invoiceNumber,
+            Contact: { ContactID: match.contact.ContactID },
+            LineItems: lineItems,
+            Date: invoice.date,
+            DueDate: invoice.dueDate,
+            Reference: invoice.reference,
+            LineAmountTypes: invoice.lineAmountTypes,
+            CurrencyCode: invoice.currencyCode,
+            BrandingThemeID: invoice.brandingThemeId,
+            Status: invoice.status || "DRAFT",
+          },
+        });
+      } catch (e) {
+        if (!(e instanceof XeroPreflightError)) {
+          throw e;
+        }
+        report(invoice, "failed", { errors: e.problems.length > 0 ? e.problems : [e.message] });
+      }
+    }
+
+    for (let i = 0; i < pending.length; i += IMPORT_BATCH_SIZE) {
+      const batch = pending.slice(i, i + IMPORT_BATCH_SIZE);
+      const replayedBefore = this.replayedWrites.length;
+      let response: InvoicesResponse;
+      try {
+        response = await this.request<InvoicesResponse>(
+          "POST",
+          "/Invoices",
+          { Invoices: batch.map((entry) => entry.body) },
+          { summarizeErrors: "false" },
+          { tenantId }
+        );
+      } catch (e) {
+        // A rejected batch (e.g. rate limit exhausted) fails only its own invoices
+        if (!(e instanceof XeroApiError)) {
+          throw e;
+        }
+        batch.forEach(({ invoice }) => report(invoice, "failed", { errors: [e.message] }));
+        continue;
+      }
+
+      const returned = new Map(
+        (response.Invoices || []).map((created) => [
+          invoiceKey(created.Type, created.InvoiceNumber, created.Contact?.ContactID),
+          created,
+        ])
+      );
+      const notReturned = this.replayedWrites.length > replayedBefore
+        ? "Not sent again: its batch was already sent with this Idempotency-Key"
+        : "No invoice returned";
+      batch.forEach(({ invoice, key }) => {
+        const created = returned.get(key);
+        if (this.dryRun) {
+          report(invoice, "ready");
+        } else if (!created || created.HasErrors || created.ValidationErrors?.length) {
+          const messages = created?.ValidationErrors?.map((v) => v.Message).filter((m): m is string => !!m);
+          report(invoice, "failed", { errors: messages?.length ? messages : [notReturned] });
+        } else {
+          report(invoice, "created", { invoiceId: created.InvoiceID });
+        }
+      });
+    }
+
+    return {
+      summary: { invoices: invoices.length, ...outcomes },
+      rows: results.sort((a, b) => a.row - b.row),
+    };
+  }
+
+  // ============================================
+  // REPEATING INVOICE OPERATIONS
+  // ============================================
+
+  /**
+   * Lists repeating invoice templates (not paged by Xero).
+   *
+   * @param options - Filter options
+   * @param options.where - Xero-style where clause (e.g., 'Status=="AUTHORISED"')
+   * @param options.order - Sort order
+   * @param options.tenantId - Override tenant ID
+   * @returns Array of repeating invoice objects
+   */
+  async listRepeatingInvoices(
+    options?: { where?: string; order?: string; tenantId?: string }
+  ): Promise<RepeatingInvoice[]> {
+    const params: Record<string, string> = {};
+    if (options?.where) params.where = options.where;
+    if (options?.order) params.order = options.order;
+
+    const response = await this.request<RepeatingInvoicesResponse>(
+      "GET",
+      "/RepeatingInvoices",
+      undefined,
+      params,
+      { tenantId: options?.tenantId }
+    );
+    return response.RepeatingInvoices || [];
+  }
+
+  /**
+   * Retrieves a single repeating invoice template by ID.
+   *
+   * @param repeatingInvoiceId - Xero repeating invoice ID (GUID)
+   * @param tenantId - Override tenant ID
+   * @returns Repeating invoice object or null if not found
+   */
+  async getRepeatingInvoice(repeatingInvoiceId: string, tenantId?: string): Promise<RepeatingInvoice | null> {
+    const response = await this.request<RepeatingInvoicesResponse>(
+      "GET",
+      `/RepeatingInvoices/${repeatingInvoiceId}`,
+      undefined,
+      undefined,
+      { tenantId }
+    );
+    return response.RepeatingInvoices?.[0] || null;
+  }
+
+  /**
+   * Creates a repeating invoice template.
+   *
+   * The contact must already exist. Line items are checked the same way as
+   * for createInvoice, including the default account fallbacks.
    *
-   * @param options - Invoice creation options
-   * @param options.contactName - Contact/customer name (required)
-   * @param options.type - Invoice type: "ACCREC" (sales) or "ACCPAY" (purchase)
-   * @param options.lineItems - Array of line items
-   * @param options.dueDate - Due date (YYYY-MM-DD)
-   * @param options.reference - Invoice reference
+   * @param options - Template details
+   * @param options.contactName - ContactID, contact number, email address or name
+   * @param options.lineItems - Line items
+   * @param options.schedule - Period, unit, start/next/end dates and due-date rule
+   * @param options.status - "DRAFT" (default) or "AUTHORISED"
    * @param options.tenantId - Override tenant ID
-   * @returns Created invoice object
-   *
-   * @invalidates contacts/*
+   * @returns Created repeating invoice object
+   * @throws XeroContactNotFoundError if the contact doesn't exist
+   * @throws XeroPreflightError if any line item is invalid
    *
    * @example
-   * const invoice = await client.createInvoice({
-   *   contactName: "Customer Name",
-   *   lineItems: [{ description: "Item", quantity: 1, unitAmount: 100 }],
-   *   dueDate: "2024-02-01"
+   * const template = await client.createRepeatingInvoice({
+   *   contactName: "ABC Company",
+   *   lineItems: [{ description: "Monthly support", quantity: 1, unitAmount: 500 }],
+   *   schedule: { unit: "MONTHLY", startDate: "2024-02-01", dueDate: 20, dueDateType: "OFFOLLOWINGMONTH" }
    * });
    */
-  async createInvoice(options: CreateInvoiceOptions & { tenantId?: string }): Promise<Invoice> {
-    // First, look up the contact by name
-    const contacts = await this.listContacts({
-      where: `Name=="${options.contactName}"`,
-      tenantId: options.tenantId,
-    });
-
-    let contactId: string;
-    if (contacts.length > 0) {
-      contactId = contacts[0].ContactID;
-    } else {
-      // Create the contact if it doesn't exist
-      const newContact = await this.createContact({
-        name: options.contactName,
-        tenantId: options.tenantId,
-      });
-      contactId = newContact.ContactID;
+  async createRepeatingInvoice(
+    options: CreateRepeatingInvoiceOptions & { tenantId?: string }
+  ): Promise<RepeatingInvoice> {
+    const type = options.type || "ACCREC";
+    const tenantId = await this.getTenantId(options.tenantId, { forWrite: true });
+
+    const match = await this.resolveContact(options.contactName, tenantId);
+    if (!match) {
+      throw await this.contactNotFound(options.contactName, tenantId, "Create the contact first.");
     }
+    const lineItems = await this.prepareLineItems(options.lineItems, type, match.contact, tenantId);
 
-    const invoiceBody = {
-      Type: options.type || "ACCREC",
-      Contact: { ContactID: contactId },
-      LineItems: options.lineItems.map((item) => ({
-        Description: item.description,
-        Quantity: item.quantity,
-        UnitAmount: item.unitAmount,
-        AccountCode: item.accountCode || "200", // Default to Sales account
-      })),
-      DueDate: options.dueDate,
+    const body = {
+      Type: type,
+      Contact: { ContactID: match.contact.ContactID },
+      Schedule: scheduleBody(options.schedule),
+      LineItems: lineItems,
       Reference: options.reference,
-      Status: "DRAFT",
+      LineAmountTypes: options.lineAmountTypes,
+      CurrencyCode: options.currencyCode,
+      BrandingThemeID: options.brandingThemeId,
+      Status: options.status || "DRAFT",
     };
 
-    const response = await this.request<InvoicesResponse>(
-      "POST",
-      "/Invoices",
-      { Invoices: [invoiceBody] },
+    const response = await this.request<RepeatingInvoicesResponse>(
+      "PUT",
+      "/RepeatingInvoices",
+      { RepeatingInvoices: [body] },
       undefined,
-      { tenantId: options.tenantId }
+      { tenantId }
     );
 
-    if (!response.Invoices?.[0]) {
-      throw new Error("Failed to create invoice - no invoice returned");
+    if (!response.RepeatingInvoices?.[0]) {
+      throw new Error("Failed to create repeating invoice - no repeating invoice returned");
     }
 
-    return response.Invoices[0];
+    return response.RepeatingInvoices[0];
   }
 
   /**
-   * Updates an existing invoice.
+   * Updates a repeating invoice template.
    *
-   * @param invoiceId - Xero invoice ID (GUID)
+   * Schedule fields are merged into the current schedule; line items, when
+   * given, replace the existing lines.
+   *
+   * @param repeatingInvoiceId - Xero repeating invoice ID (GUID)
    * @param updates - Fields to update
-   * @param updates.status - New status (e.g., "AUTHORISED", "VOIDED")
-   * @param updates.reference - New reference
-   * @param updates.dueDate - New due date (YYYY-MM-DD)
    * @param updates.tenantId - Override tenant ID
-   * @returns Updated invoice object
+   * @returns Updated repeating invoice object
+   * @throws XeroPreflightError if the template doesn't exist or a line item is invalid
    */
-  async updateInvoice(
-    invoiceId: string,
-    updates: { status?: string; reference?: string; dueDate?: string; tenantId?: string }
-  ): Promise<Invoice> {
-    const invoiceBody: Record<string, any> = { InvoiceID: invoiceId };
-    if (updates.status) invoiceBody.Status = updates.status;
-    if (updates.reference) invoiceBody.Reference = updates.reference;
-    if (updates.dueDate) invoiceBody.DueDate = updates.dueDate;
+  async updateRepeatingInvoice(
+    repeatingInvoiceId: string,
+    updates: UpdateRepeatingInvoiceOptions & { tenantId?: string }
+  ): Promise<RepeatingInvoice> {
+    const tenantId = await this.getTenantId(updates.tenantId, { forWrite: true });
+    const current = await this.getRepeatingInvoice(repeatingInvoiceId, tenantId);
+    if (!current) {
+      throw new XeroPreflightError(`Repeating invoice ${repeatingInvoiceId} not found`, []);
+    }
 
-    const response = await this.request<InvoicesResponse>(
+    const body: Record<string, any> = {
+      RepeatingInvoiceID: current.RepeatingInvoiceID,
+      Type: current.Type,
+      Contact: { ContactID: current.Contact.ContactID },
+      Status: updates.status || current.Status,
+    };
+    if (updates.reference !== undefined) body.Reference = updates.reference;
+    if (updates.schedule) {
+      const day = (value?: string) => parseXeroDate(value)?.toISOString().slice(0, 10);
+      body.Schedule = scheduleBody({
+        period: current.Schedule.Period,
+        unit: current.Schedule.Unit,
+        startDate: day(current.Schedule.StartDate) as string,
+        nextScheduledDate: day(current.Schedule.NextScheduledDate),
+        endDate: day(current.Schedule.EndDate),
+        dueDate: current.Schedule.DueDate,
+        dueDateType: current.Schedule.DueDateType,
+        ...updates.schedule,
+      });
+    }
+    if (updates.lineItems) {
+      const contact = await this.getContact(current.Contact.ContactID, tenantId);
+      body.LineItems = await this.prepareLineItems(updates.lineItems, current.Type, contact ?? undefined, tenantId);
+    }
+
+    const response = await this.request<RepeatingInvoicesResponse>(
       "POST",
-      `/Invoices/${invoiceId}`,
-      { Invoices: [invoiceBody] },
+      `/RepeatingInvoices/${current.RepeatingInvoiceID}`,
+      { RepeatingInvoices: [body] },
       undefined,
-      { tenantId: updates.tenantId }
+      { tenantId }
     );
 
-    if (!response.Invoices?.[0]) {
-      throw new Error("Failed to update invoice - no invoice returned");
+    if (!response.RepeatingInvoices?.[0]) {
+      throw new Error("Failed to update repeating invoice - no repeating invoice returned");
     }
 
-    return response.Invoices[0];
+    return response.RepeatingInvoices[0];
+  }
+
+  /**
+   * Lists the invoices repeating templates will generate, from each
+   * template's next scheduled date up to `months` months from now.
+   * Deleted templates are skipped.
+   *
+   * @param options - Projection options
+   * @param options.months - How many months ahead to project
+   * @param options.id - Only project this template
+   * @param options.tenantId - Override tenant ID
+   * @returns Projected invoices, earliest first
+   */
+  async projectRepeatingInvoices(
+    options: { months: number; id?: string; tenantId?: string }
+  ): Promise<ProjectedInvoice[]> {
+    let templates: RepeatingInvoice[];
+    if (options.id) {
+      const template = await this.getRepeatingInvoice(options.id, options.tenantId);
+      if (!template) {
+        throw new XeroPreflightError(`Repeating invoice ${options.id} not found`, []);
+      }
+      templates = [template];
+    } else {
+      templates = await this.listRepeatingInvoices({ tenantId: options.tenantId });
+    }
+
+    const until = new Date();
+    until.setUTCMonth(until.getUTCMonth() + options.months);
+
+    const projected: ProjectedInvoice[] = [];
+    for (const template of templates) {
+      if (template.Status === "DELETED") {
+        continue;
+      }
+      for (const occurrence of projectSchedule(template.Schedule, until)) {
+        projected.push({
+          RepeatingInvoiceID: template.RepeatingInvoiceID,
+          Type: template.Type,
+          Contact: template.Contact?.Name,
+          Reference: template.Reference,
+          Date: occurrence.date,
+          DueDate: occurrence.dueDate,
+          Total: template.Total,
+          CurrencyCode: template.CurrencyCode,
+          Status: template.Status,
+        });
+      }
+    }
+    return projected.sort((a, b) => a.Date.localeCompare(b.Date));
   }
 
   // ============================================
@@ -636,41 +2370,61 @@ export class XeroClient {
    *
    * @param options - Filter and pagination options
    * @param options.page - Page number for pagination
+   * @param options.all - Fetch every page and merge the results
+   * @param options.limit - Maximum records to return (walks pages)
+   * @param options.modifiedSince - Only records modified since this timestamp (ISO)
    * @param options.where - Xero-style where clause (e.g., 'Name.Contains("Smith")')
    * @param options.order - Sort order
+   * @param options.searchTerm - Case-insensitive search of name, first/last name, contact number and email
    * @param options.tenantId - Override tenant ID
    * @returns Array of contact objects
    *
    * @cached TTL: 1 hour
    */
-  async listContacts(options?: ListOptions & { tenantId?: string }): Promise<Contact[]> {
+  async listContacts(options?: ListOptions & { searchTerm?: string; tenantId?: string }): Promise<Contact[]> {
+    if (options?.all || options?.limit) {
+      return collect(this.iterateContacts(options));
+    }
+
+    const tenantId = await this.getTenantId(options?.tenantId);
     const cacheKey = createCacheKey("contacts", {
+      tenantId,
       page: options?.page,
       where: options?.where,
       order: options?.order,
+      searchTerm: options?.searchTerm,
+      modifiedSince: options?.modifiedSince,
     });
 
     return cache.getOrFetch(
       cacheKey,
       async () => {
-        const queryParams: Record<string, string> = {};
-        if (options?.page) queryParams.page = options.page.toString();
-        if (options?.where) queryParams.where = options.where;
-        if (options?.order) queryParams.order = options.order;
-
+        const params = this.buildListParams(options);
+        if (options?.searchTerm) params.searchTerm = options.searchTerm;
         const response = await this.request<ContactsResponse>(
           "GET",
           "/Contacts",
           undefined,
-          queryParams,
-          { tenantId: options?.tenantId }
+          params,
+          this.listRequestOptions({ ...options, tenantId })
         );
         return response.Contacts || [];
       },
-      { ttl: TTL.HOUR, bypassCache: this.cacheDisabled }
+      // Incremental queries must always see fresh data
+      { ttl: TTL.HOUR, bypassCache: this.cacheDisabled || !!options?.modifiedSince }
     );
   }
 
+  /**
+   * Streams contacts page by page (each page is cached individually).
+   *
+   * @param options - Filter options; page sets the starting page, limit caps the total
+   * @returns Async iterator of contact objects
+   */
+  async *iterateContacts(options?: ListOptions & { searchTerm?: string; tenantId?: string }): AsyncGenerator<Contact> {
+    yield* this.paginate((page) => this.listContacts(this.pageOptions(options, page)), options);
+  }
+
   /**
    * Retrieves a single contact by ID.
    *
@@ -689,35 +2443,250 @@ export class XeroClient {
     return response.Contacts?.[0] || null;
   }
 
+  /**
+   * Resolves a contact reference to a single contact.
+   *
+   * Tried in order: ContactID (GUID), contact number, email address (if the
+   * reference contains "@"), then exact name. Values are escaped in the
+   * where filter, so names containing quotes are safe.
+   *
+   * @param ref - ContactID, contact number, email address or name
+   * @param tenantId - Override tenant ID
+   * @returns The match, or null if nothing matches exactly
+   * @throws XeroPreflightError if a number or email matches several contacts
+   */
+  async resolveContact(ref: string, tenantId?: string): Promise<ContactMatch | null> {
+    const value = ref.trim();
+
+    if (GUID_PATTERN.test(value)) {
+      try {
+        const contact = await this.getContact(value, tenantId);
+        if (contact) {
+          return { contact, matchedBy: "id" };
+        }
+      } catch (error) {
+        if (!(error instanceof XeroNotFoundError)) {
+          throw error;
+        }
+      }
+      return null;
+    }
+
+    const lookups: Array<[ContactMatch["matchedBy"], string]> = [
+      ["number", "ContactNumber"],
+      ...(value.includes("@") ? [["email", "EmailAddress"] as [ContactMatch["matchedBy"], string]] : []),
+      ["name", "Name"],
+    ];
+    for (const [matchedBy, field] of lookups) {
+      const contacts = await this.listContacts({ where: whereEquals(field, value), tenantId });
+      if (contacts.length > 1) {
+        throw new XeroPreflightError(
+          `"${value}" matches ${contacts.length} contacts by ${matchedBy}; use a ContactID`,
+          contacts.map((c) => `${c.Name} (${c.ContactID})`)
+        );
+      }
+      if (contacts.length === 1) {
+        return { contact: contacts[0], matchedBy };
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Contacts with names close to a reference, best first - used for
+   * "did you mean" hints when resolveContact finds nothing.
+   *
+   * Searches Xero for the whole reference and each word of it (and the
+   * word's first four letters, to catch typos), then ranks by name similarity.
+   *
+   * @param ref - The reference that failed to resolve
+   * @param tenantId - Override tenant ID
+   * @param limit - Maximum candidates to return
+   * @returns Candidates with a 0-1 similarity score
+   */
+  async findSimilarContacts(ref: string, tenantId?: string, limit = 5): Promise<ContactCandidate[]> {
+    const words = normaliseName(ref).split(" ").filter((word) => word.length >= 3);
+    const terms = [...new Set([ref.trim(), ...words, ...words.map((word) => word.slice(0, 4))])]
+      .filter((term) => term.length >= 3)
+      .slice(0, 4);
+
+    const found = new Map<string, Contact>();
+    for (const searchTerm of terms) {
+      for (const contact of await this.listContacts({ searchTerm, tenantId })) {
+        found.set(contact.ContactID, contact);
+      }
+    }
+
+    return [...found.values()]
+      .map((contact) => ({
+        ContactID: contact.ContactID,
+        Name: contact.Name,
+        ContactNumber: contact.ContactNumber,
+        EmailAddress: contact.EmailAddress,
+        score: Math.round(nameSimilarity(ref, contact.Name) * 100) / 100,
+      }))
+      .filter((candidate) => candidate.score >= MIN_CANDIDATE_SCORE)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+  }
+
+  /**
+   * Finds groups of contacts that are probably the same business, by
+   * similar name, shared email address or company email domain, tax number
+   * or phone number, and suggests which record in each group to keep.
+   *
+   * Each contact in a group comes with its invoice and bill counts and open
+   * balances; the keeper is the active record with the most activity. The
+   * API cannot merge contacts, so the notes on the others say what to settle
+   * or move before archiving them (or merge them in Xero instead).
+   *
+   * @param options.includeArchived - Also compare archived contacts
+   * @param options.threshold - Minimum name similarity, 0-1 (default 0.85)
+   * @param options.tenantId - Override tenant ID
+   * @returns Groups of likely duplicates, largest first
+   */
+  async findDuplicateContacts(options?: {
+    includeArchived?: boolean;
+    threshold?: number;
+    tenantId?: string;
+  }): Promise<DuplicateContactCluster[]> {
+    const tenantId = await this.getTenantId(options?.tenantId);
+    const contacts = (await this.listContacts({ all: true, tenantId })).filter(
+      (contact) => options?.includeArchived || contact.ContactStatus !== "ARCHIVED"
+    );
+
+    const clusters = clusterDuplicateContacts(contacts, options?.threshold ?? DEFAULT_NAME_THRESHOLD);
+    const activity = await this.contactActivity(
+      clusters.flatMap((cluster) => cluster.contacts.map((contact) => contact.ContactID)),
+      tenantId
+    );
+    return clusters.map((cluster) => describeDuplicateCluster(cluster, activity));
+  }
+
+  /**
+   * Invoice and bill counts, open balances and last transaction date per
+   * contact (voided and deleted documents are ignored)
+   */
+  private async contactActivity(contactIds: string[], tenantId: string): Promise<Map<string, ContactActivity>> {
+    const activity = new Map<string, ContactActivity>();
+    for (let i = 0; i < contactIds.length; i += CONTACT_ACTIVITY_LOOKUP_SIZE) {
+      const ids = contactIds.slice(i, i + CONTACT_ACTIVITY_LOOKUP_SIZE).join(",");
+      const invoices = this.paginate(async (page) => {
+        const response = await this.request<InvoicesResponse>(
+          "GET",
+          "/Invoices",
+          undefined,
+          { ContactIDs: ids, page: String(page), summaryOnly: "true" },
+          { tenantId }
+        );
+        return response.Invoices || [];
+      });
+
+      for await (const invoice of invoices) {
+        const contactId = invoice.Contact?.ContactID;
+        if (!contactId || invoice.Status === "DELETED" || invoice.Status === "VOIDED") {
+          continue;
+        }
+        const stats = activity.get(contactId) || { invoices: 0, bills: 0, receivable: 0, payable: 0 };
+        if (invoice.Type === "ACCPAY") {
+          stats.bills++;
+          stats.payable += invoice.AmountDue || 0;
+        } else {
+          stats.invoices++;
+          stats.receivable += invoice.AmountDue || 0;
+        }
+        const date = parseXeroDate(invoice.Date)?.toISOString().slice(0, 10);
+        if (date && (!stats.lastTransactionDate || date > stats.lastTransactionDate)) {
+          stats.lastTransactionDate = date;
+        }
+        activity.set(contactId, stats);
+      }
+    }
+    return activity;
+  }
+
+  /**
+   * Checks contact fields Xero would reject, or silently store wrong:
+   * default account codes and tax types must exist, payment terms must be
+   * valid days, and the currency must be a 3-letter code.
+   *
+   * @returns One message per problem; empty if the fields are usable
+   */
+  async validateContactOptions(options: UpdateContactOptions, tenantId?: string): Promise<string[]> {
+    const problems: string[] = [];
+    const codes = [options.salesDefaultAccountCode, options.purchasesDefaultAccountCode];
+    const taxTypes = [options.accountsReceivableTaxType, options.accountsPayableTaxType];
+
+    if (codes.some(Boolean) || taxTypes.some(Boolean)) {
+      const { accountsByCode, taxRatesByType } = await this.lineItemReferences(tenantId, false);
+      for (const code of codes.filter((c): c is string => !!c)) {
+        const account = accountsByCode.get(code.toUpperCase());
+        if (!account) {
+          problems.push(`Account code "${code}" is not in the chart of accounts`);
+        } else if (account.Status === "ARCHIVED") {
+          problems.push(`Account ${account.Code} (${account.Name}) is archived`);
+        }
+      }
+      for (const taxType of taxTypes.filter((t): t is string => !!t)) {
+        if (!taxRatesByType.has(taxType.toUpperCase())) {
+          problems.push(`Tax type "${taxType}" does not exist`);
+        }
+      }
+    }
+
+    for (const [kind, term] of Object.entries(options.paymentTerms || {})) {
+      if (!term) continue;
+      if (!term.Type || !PAYMENT_TERM_TYPES.includes(term.Type)) {
+        problems.push(`${kind} payment terms: Type must be one of ${PAYMENT_TERM_TYPES.join(", ")}`);
+      } else if (!Number.isInteger(term.Day) || term.Day! < 0 || (term.Type.startsWith("OF") && term.Day! > 31)) {
+        problems.push(`${kind} payment terms: Day ${term.Day} is not valid for ${term.Type}`);
+      }
+    }
+    for (const address of options.addresses || []) {
+      if (!["POBOX", "STREET", "DELIVERY"].includes(address.AddressType)) {
+        problems.push(`Address type "${address.AddressType}" must be POBOX, STREET or DELIVERY`);
+      }
+    }
+    for (const phone of options.phones || []) {
+      if (!["DEFAULT", "DDI", "MOBILE", "FAX"].includes(phone.PhoneType)) {
+        problems.push(`Phone type "${phone.PhoneType}" must be DEFAULT, DDI, MOBILE or FAX`);
+      }
+    }
+    if (options.defaultCurrency && !/^[A-Z]{3}$/.test(options.defaultCurrency)) {
+      problems.push(`Default currency "${options.defaultCurrency}" must be a 3-letter code such as USD`);
+    }
+    if (options.discount !== undefined && (options.discount < 0 || options.discount > 100)) {
+      problems.push("Discount must be between 0 and 100");
+    }
+    return problems;
+  }
+
   /**
    * Creates a new contact.
    *
    * @param options - Contact creation options
    * @param options.name - Contact name (required)
    * @param options.email - Email address
-   * @param options.firstName - First name
-   * @param options.lastName - Last name
-   * @param options.phone - Phone number
+   * @param options.phone - Default phone number (options.phones sets the others)
+   * @param options.addresses - POBOX / STREET addresses
+   * @param options.paymentTerms - Default bill and sales payment terms
+   * @param options.salesDefaultAccountCode - Default account for sales lines (also purchases*, tax types)
    * @param options.tenantId - Override tenant ID
    * @returns Created contact object
+   * @throws XeroPreflightError if an account code, tax type or payment term is invalid
    *
    * @invalidates contacts/*
    */
   async createContact(options: CreateContactOptions & { tenantId?: string }): Promise<Contact> {
-    const contactBody: Record<string, any> = {
-      Name: options.name,
-    };
-    if (options.email) contactBody.EmailAddress = options.email;
-    if (options.firstName) contactBody.FirstName = options.firstName;
-    if (options.lastName) contactBody.LastName = options.lastName;
-    if (options.phone) {
-      contactBody.Phones = [{ PhoneType: "DEFAULT", PhoneNumber: options.phone }];
+    const problems = await this.validateContactOptions(options, options.tenantId);
+    if (problems.length > 0) {
+      throw new XeroPreflightError(`Contact has ${problems.length} invalid field(s)`, problems);
     }
 
     const response = await this.request<ContactsResponse>(
       "POST",
       "/Contacts",
-      { Contacts: [contactBody] },
+      { Contacts: [contactBody(options)] },
       undefined,
       { tenantId: options.tenantId }
     );
@@ -733,38 +2702,25 @@ export class XeroClient {
   }
 
   /**
-   * Updates an existing contact.
+   * Updates an existing contact. Only the fields given are changed.
    *
    * @param contactId - Xero contact ID (GUID)
-   * @param updates - Fields to update
+   * @param updates - Fields to update (same as createContact)
    * @returns Updated contact object
+   * @throws XeroPreflightError if an account code, tax type or payment term is invalid
    *
    * @invalidates contacts/*
    */
-  async updateContact(
-    contactId: string,
-    updates: {
-      name?: string;
-      email?: string;
-      firstName?: string;
-      lastName?: string;
-      phone?: string;
-      tenantId?: string;
-    }
-  ): Promise<Contact> {
-    const contactBody: Record<string, any> = { ContactID: contactId };
-    if (updates.name) contactBody.Name = updates.name;
-    if (updates.email) contactBody.EmailAddress = updates.email;
-    if (updates.firstName) contactBody.FirstName = updates.firstName;
-    if (updates.lastName) contactBody.LastName = updates.lastName;
-    if (updates.phone) {
-      contactBody.Phones = [{ PhoneType: "DEFAULT", PhoneNumber: updates.phone }];
+  async updateContact(contactId: string, updates: UpdateContactOptions & { tenantId?: string }): Promise<Contact> {
+    const problems = await this.validateContactOptions(updates, updates.tenantId);
+    if (problems.length > 0) {
+      throw new XeroPreflightError(`Contact has ${problems.length} invalid field(s)`, problems);
     }
 
     const response = await this.request<ContactsResponse>(
       "POST",
       `/Contacts/${contactId}`,
-      { Contacts: [contactBody] },
+      { Contacts: [{ ContactID: contactId, ...contactBody(updates) }] },
       undefined,
       { tenantId: updates.tenantId }
     );
@@ -779,6 +2735,133 @@ export class XeroClient {
     return response.Contacts[0];
   }
 
+  /**
+   * Checks whether a contact can be archived without leaving money open:
+   * unpaid approved invoices and bills, and credit notes, overpayments or
+   * prepayments with credit not yet applied.
+   *
+   * @param contactId - Xero contact ID (GUID)
+   * @param tenantId - Override tenant ID
+   * @returns The contact and one line per open item
+   * @throws XeroPreflightError if the contact does not exist
+   */
+  async planContactArchive(contactId: string, tenantId?: string): Promise<ContactArchivePlan> {
+    const contact = await this.existingContact(contactId, tenantId);
+
+    const ofContact = `Contact.ContactID==Guid("${contact.ContactID}")`;
+    const amount = (value: number | undefined, currency: string | undefined) =>
+      `${(value ?? 0).toFixed(2)}${currency ? ` ${currency}` : ""}`;
+    const [invoices, creditNotes, overpayments, prepayments] = await Promise.all([
+      this.listInvoices({ where: `${ofContact} AND AmountDue>0`, all: true, tenantId }),
+      this.listCreditNotes({ where: `${ofContact} AND Status=="AUTHORISED" AND RemainingCredit>0`, all: true, tenantId }),
+      this.listOverpayments({ where: `${ofContact} AND Status=="AUTHORISED" AND RemainingCredit>0`, all: true, tenantId }),
+      this.listPrepayments({ where: `${ofContact} AND Status=="AUTHORISED" AND RemainingCredit>0`, all: true, tenantId }),
+    ]);
+
+    const openItems = [
+      ...invoices
+        .filter((i) => i.Status === "AUTHORISED" || i.Status === "SUBMITTED")
+        .map((i) => `${i.Type === "ACCPAY" ? "Bill" : "Invoice"} ${i.InvoiceNumber || i.InvoiceID} has ${amount(i.AmountDue, i.CurrencyCode)} due`),
+      ...creditNotes.map(
+        (c) => `Credit note ${c.CreditNoteNumber || c.CreditNoteID} has ${amount(c.RemainingCredit, c.CurrencyCode)} unapplied`
+      ),
+      ...overpayments.map((o) => `Overpayment ${o.OverpaymentID} has ${amount(o.RemainingCredit, o.CurrencyCode)} unapplied`),
+      ...prepayments.map((p) => `Prepayment ${p.PrepaymentID} has ${amount(p.RemainingCredit, p.CurrencyCode)} unapplied`),
+    ];
+    return { contact, openItems };
+  }
+
+  /**
+   * Archives a contact, hiding it from lists and lookups in Xero.
+   *
+   * @param contactId - Xero contact ID (GUID)
+   * @param options.force - Archive even with money open against the contact
+   * @param options.tenantId - Override tenant ID
+   * @returns The archived contact and any open items it was archived with
+   * @throws XeroPreflightError listing open items (unless force), or if already archived
+   *
+   * @invalidates contacts/*
+   */
+  async archiveContact(
+    contactId: string,
+    options?: { force?: boolean; tenantId?: string }
+  ): Promise<ContactArchivePlan> {
+    const { contact, openItems } = await this.planContactArchive(contactId, options?.tenantId);
+    if (contact.ContactStatus === "ARCHIVED") {
+      throw new XeroPreflightError(`Contact ${contact.Name} is already archived`, []);
+    }
+    if (openItems.length > 0 && !options?.force) {
+      throw new XeroPreflightError(
+        `Contact ${contact.Name} has ${openItems.length} open item(s); settle them or pass --force`,
+        openItems
+      );
+    }
+    if (openItems.length > 0) {
+      this.noteSideEffect(`${contact.Name} is archived with ${openItems.length} open item(s)`);
+    }
+
+    return { contact: await this.setContactStatus(contact, "ARCHIVED", options?.tenantId), openItems };
+  }
+
+  /**
+   * Restores an archived contact.
+   *
+   * @param contactId - Xero contact ID (GUID)
+   * @param tenantId - Override tenant ID
+   * @returns The active contact
+   * @throws XeroPreflightError if the contact does not exist or is not archived
+   *
+   * @invalidates contacts/*
+   */
+  async unarchiveContact(contactId: string, tenantId?: string): Promise<Contact> {
+    const contact = await this.existingContact(contactId, tenantId);
+    if (contact.ContactStatus !== "ARCHIVED") {
+      throw new XeroPreflightError(`Contact ${contact.Name} is ${contact.ContactStatus}, not archived`, []);
+    }
+    return this.setContactStatus(contact, "ACTIVE", tenantId);
+  }
+
+  /**
+   * The contact with this ID
+   *
+   * @throws XeroPreflightError if there is none
+   */
+  private async existingContact(contactId: string, tenantId?: string): Promise<Contact> {
+    try {
+      const contact = GUID_PATTERN.test(contactId) ? await this.getContact(contactId, tenantId) : null;
+      if (contact) {
+        return contact;
+      }
+    } catch (error) {
+      if (!(error instanceof XeroNotFoundError)) {
+        throw error;
+      }
+    }
+    throw new XeroPreflightError(`Contact ${contactId} not found`, []);
+  }
+
+  private async setContactStatus(
+    contact: Contact,
+    status: "ACTIVE" | "ARCHIVED",
+    tenantId?: string
+  ): Promise<Contact> {
+    const response = await this.request<ContactsResponse>(
+      "POST",
+      `/Contacts/${contact.ContactID}`,
+      { Contacts: [{ ContactID: contact.ContactID, ContactStatus: status }] },
+      undefined,
+      // Archive -> restore -> archive repeats identical requests that must all go out
+      { tenantId, unjournalled: true }
+    );
+    if (!response.Contacts?.[0]) {
+      throw new Error(`Failed to ${status === "ARCHIVED" ? "archive" : "restore"} contact - no contact returned`);
+    }
+
+    cache.invalidatePattern(/^contacts/);
+
+    return response.Contacts[0];
+  }
+
   // ============================================
   // ACCOUNT OPERATIONS
   // ============================================
@@ -789,15 +2872,24 @@ export class XeroClient {
    * @param options - Filter options
    * @param options.where - Xero-style where clause
    * @param options.order - Sort order
+   * @param options.modifiedSince - Only accounts modified since this timestamp
    * @param options.tenantId - Override tenant ID
    * @returns Array of account objects
    *
    * @cached TTL: 1 day
    */
-  async listAccounts(options?: { where?: string; order?: string; tenantId?: string }): Promise<Account[]> {
+  async listAccounts(options?: {
+    where?: string;
+    order?: string;
+    modifiedSince?: string;
+    tenantId?: string;
+  }): Promise<Account[]> {
+    const tenantId = await this.getTenantId(options?.tenantId);
     const cacheKey = createCacheKey("accounts", {
+      tenantId,
       where: options?.where,
       order: options?.order,
+      modifiedSince: options?.modifiedSince,
     });
 
     return cache.getOrFetch(
@@ -812,11 +2904,11 @@ export class XeroClient {
           "/Accounts",
           undefined,
           queryParams,
-          { tenantId: options?.tenantId }
+          this.listRequestOptions({ ...options, tenantId })
         );
         return response.Accounts || [];
       },
-      { ttl: TTL.DAY, bypassCache: this.cacheDisabled }
+      { ttl: TTL.DAY, bypassCache: this.cacheDisabled || !!options?.modifiedSince }
     );
   }
 
@@ -831,21 +2923,30 @@ export class XeroClient {
    * @returns Array of payment objects
    */
   async listPayments(options?: ListOptions & { tenantId?: string }): Promise<Payment[]> {
-    const queryParams: Record<string, string> = {};
-    if (options?.page) queryParams.page = options.page.toString();
-    if (options?.where) queryParams.where = options.where;
-    if (options?.order) queryParams.order = options.order;
+    if (options?.all || options?.limit) {
+      return collect(this.iteratePayments(options));
+    }
 
     const response = await this.request<PaymentsResponse>(
       "GET",
       "/Payments",
       undefined,
-      queryParams,
-      { tenantId: options?.tenantId }
+      this.buildListParams(options),
+      this.listRequestOptions(options)
     );
     return response.Payments || [];
   }
 
+  /**
+   * Iterates payments across all pages, fetching one page at a time.
+   *
+   * @param options - Filter options; page sets the starting page, limit caps the total
+   * @returns Async iterator of payment objects
+   */
+  async *iteratePayments(options?: ListOptions & { tenantId?: string }): AsyncGenerator<Payment> {
+    yield* this.paginate((page) => this.listPayments(this.pageOptions(options, page)), options);
+  }
+
   /**
    * Creates a payment for an invoice.
    *
@@ -901,21 +3002,30 @@ export class XeroClient {
    * @returns Array of bank transaction objects
    */
   async listBankTransactions(options?: ListOptions & { tenantId?: string }): Promise<BankTransaction[]> {
-    const queryParams: Record<string, string> = {};
-    if (options?.page) queryParams.page = options.page.toString();
-    if (options?.where) queryParams.where = options.where;
-    if (options?.order) queryParams.order = options.order;
+    if (options?.all || options?.limit) {
+      return collect(this.iterateBankTransactions(options));
+    }
 
     const response = await this.request<BankTransactionsResponse>(
       "GET",
       "/BankTransactions",
       undefined,
-      queryParams,
-      { tenantId: options?.tenantId }
+      this.buildListParams(options),
+      this.listRequestOptions(options)
     );
     return response.BankTransactions || [];
   }
 
+  /**
+   * Iterates bank transactions across all pages, fetching one page at a time.
+   *
+   * @param options - Filter options; page sets the starting page, limit caps the total
+   * @returns Async iterator of bank transaction objects
+   */
+  async *iterateBankTransactions(options?: ListOptions & { tenantId?: string }): AsyncGenerator<BankTransaction> {
+    yield* this.paginate((page) => this.listBankTransactions(this.pageOptions(options, page)), options);
+  }
+
   // ============================================
   // CREDIT NOTE OPERATIONS
   // ============================================
@@ -927,21 +3037,30 @@ export class XeroClient {
    * @returns Array of credit note objects
    */
   async listCreditNotes(options?: ListOptions & { tenantId?: string }): Promise<CreditNote[]> {
-    const queryParams: Record<string, string> = {};
-    if (options?.page) queryParams.page = options.page.toString();
-    if (options?.where) queryParams.where = options.where;
-    if (options?.order) queryParams.order = options.order;
+    if (options?.all || options?.limit) {
+      return collect(this.iterateCreditNotes(options));
+    }
 
     const response = await this.request<CreditNotesResponse>(
       "GET",
       "/CreditNotes",
       undefined,
-      queryParams,
-      { tenantId: options?.tenantId }
+      this.buildListParams(options),
+      this.listRequestOptions(options)
     );
     return response.CreditNotes || [];
   }
 
+  /**
+   * Iterates credit notes across all pages, fetching one page at a time.
+   *
+   * @param options - Filter options; page sets the starting page, limit caps the total
+   * @returns Async iterator of credit note objects
+   */
+  async *iterateCreditNotes(options?: ListOptions & { tenantId?: string }): AsyncGenerator<CreditNote> {
+    yield* this.paginate((page) => this.listCreditNotes(this.pageOptions(options, page)), options);
+  }
+
   // ============================================
   // ITEM OPERATIONS
   // ============================================
@@ -976,15 +3095,16 @@ export class XeroClient {
    * @cached TTL: 1 day
    */
   async listTaxRates(tenantId?: string): Promise<TaxRate[]> {
+    const resolvedTenantId = await this.getTenantId(tenantId);
     return cache.getOrFetch(
-      "tax_rates",
+      createCacheKey("tax_rates", { tenantId: resolvedTenantId }),
       async () => {
         const response = await this.request<TaxRatesResponse>(
           "GET",
           "/TaxRates",
           undefined,
           undefined,
-          { tenantId }
+          { tenantId: resolvedTenantId }
         );
         return response.TaxRates || [];
       },
@@ -992,6 +3112,260 @@ export class XeroClient {
     );
   }
 
+  // ============================================
+  // ATTACHMENT OPERATIONS
+  // ============================================
+
+  /**
+   * Attachments path for a record. Invoices and bills may be given by number.
+   */
+  private async attachmentsPath(entity: AttachmentEntity, id: string, tenantId?: string): Promise<string> {
+    let recordId = id.trim();
+    if ((entity === "invoice" || entity === "bill") && !GUID_PATTERN.test(recordId)) {
+      const invoice = await this.getInvoice(recordId, tenantId);
+      if (!invoice) {
+        throw new XeroPreflightError(`Invoice ${recordId} not found`, []);
+      }
+      recordId = invoice.InvoiceID;
+    }
+    return `/${ATTACHMENT_ENDPOINTS[entity]}/${recordId}/Attachments`;
+  }
+
+  /**
+   * Lists the files attached to a transaction or contact.
+   *
+   * @param entity - Record type (invoice, bill, creditnote, banktransaction, contact, manualjournal)
+   * @param id - Record ID (GUID); invoices and bills also accept the invoice number
+   * @param tenantId - Override tenant ID
+   * @returns Attachment metadata (no file contents)
+   */
+  async listAttachments(entity: AttachmentEntity, id: string, tenantId?: string): Promise<Attachment[]> {
+    const response = await this.request<AttachmentsResponse>(
+      "GET",
+      await this.attachmentsPath(entity, id, tenantId),
+      undefined,
+      undefined,
+      { tenantId }
+    );
+    return response.Attachments || [];
+  }
+
+  /**
+   * Downloads one attachment.
+   *
+   * @param entity - Record type
+   * @param id - Record ID (GUID); invoices and bills also accept the invoice number
+   * @param attachment - Attachment ID or file name
+   * @param tenantId - Override tenant ID
+   * @returns The attachment's metadata and contents
+   */
+  async downloadAttachment(
+    entity: AttachmentEntity,
+    id: string,
+    attachment: string,
+    tenantId?: string
+  ): Promise<{ attachment: Attachment; content: Buffer }> {
+    const path = await this.attachmentsPath(entity, id, tenantId);
+    const response = await this.request<AttachmentsResponse>("GET", path, undefined, undefined, { tenantId });
+    const match = (response.Attachments || []).find(
+      (a) => a.AttachmentID === attachment || a.FileName.toLowerCase() === attachment.toLowerCase()
+    );
+    if (!match) {
+      const names = (response.Attachments || []).map((a) => a.FileName);
+      throw new XeroPreflightError(
+        `No attachment "${attachment}" on ${entity} ${id}`,
+        names.length > 0 ? [`Attached files: ${names.join(", ")}`] : ["The record has no attachments"]
+      );
+    }
+
+    const content = await this.request<Buffer>(
+      "GET",
+      `${path}/${match.AttachmentID}`,
+      undefined,
+      undefined,
+      { tenantId, accept: match.MimeType }
+    );
+    return { attachment: match, content };
+  }
+
+  /**
+   * Uploads a file as an attachment. Uploading a file name that is already
+   * attached replaces that file.
+   *
+   * The type must be one Xero accepts and the file at most 25 MB; a record
+   * holds at most 10 attachments. Violations throw XeroPreflightError
+   * before anything is sent.
+   *
+   * @param entity - Record type
+   * @param id - Record ID (GUID); invoices and bills also accept the invoice number
+   * @param options.fileName - Name to store the file under
+   * @param options.content - File contents
+   * @param options.mimeType - Content-Type (default: from the file extension)
+   * @param options.includeOnline - Show on the online invoice (sales invoices and credit notes only)
+   * @param options.tenantId - Override tenant ID
+   * @returns The stored attachment
+   */
+  async uploadAttachment(
+    entity: AttachmentEntity,
+    id: string,
+    options: { fileName: string; content: Buffer; mimeType?: string; includeOnline?: boolean; tenantId?: string }
+  ): Promise<Attachment> {
+    const mimeType = options.mimeType || attachmentMimeType(options.fileName);
+    const problems: string[] = [];
+    if (!mimeType || !isAllowedMimeType(mimeType)) {
+      problems.push(`${options.fileName}: Xero doesn't accept ${mimeType || "this file type"}`);
+    }
+    if (options.content.length > MAX_ATTACHMENT_BYTES) {
+      problems.push(`${options.fileName}: ${options.content.length} bytes exceeds Xero's 25 MB limit`);
+    }
+    if (options.includeOnline && entity !== "invoice" && entity !== "creditnote") {
+      problems.push("includeOnline only applies to sales invoices and credit notes");
+    }
+    if (problems.length > 0) {
+      throw new XeroPreflightError(`Cannot attach ${options.fileName}`, problems);
+    }
+
+    const path = await this.attachmentsPath(entity, id, options.tenantId);
+    const existing = await this.request<AttachmentsResponse>("GET", path, undefined, undefined, {
+      tenantId: options.tenantId,
+    });
+    const attached = existing.Attachments || [];
+    const replacing = attached.some((a) => a.FileName.toLowerCase() === options.fileName.toLowerCase());
+    if (!replacing && attached.length >= MAX_ATTACHMENTS_PER_DOCUMENT) {
+      throw new XeroPreflightError(`Cannot attach ${options.fileName}`, [
+        `The record already has ${attached.length} attachments (Xero's limit is ${MAX_ATTACHMENTS_PER_DOCUMENT})`,
+      ]);
+    }
+
+    const response = await this.request<AttachmentsResponse>(
+      "POST",
+      `${path}/${encodeURIComponent(options.fileName)}`,
+      options.content,
+      options.includeOnline ? { IncludeOnline: "true" } : undefined,
+      { tenantId: options.tenantId, headers: { "Content-Type": mimeType! } }
+    );
+    // Dry runs return nothing; describe the upload that would happen
+    return response.Attachments?.[0] || {
+      AttachmentID: "",
+      FileName: options.fileName,
+      MimeType: mimeType!,
+      ContentLength: options.content.length,
+      IncludeOnline: options.includeOnline,
+    };
+  }
+
+  // ============================================
+  // HISTORY OPERATIONS
+  // ============================================
+
+  private async historyPath(entity: HistoryEntity, id: string, tenantId?: string): Promise<string> {
+    let recordId = id.trim();
+    if (entity === "invoice" && !GUID_PATTERN.test(recordId)) {
+      const invoice = await this.getInvoice(recordId, tenantId);
+      if (!invoice) {
+        throw new XeroPreflightError(`Invoice ${recordId} not found`, []);
+      }
+      recordId = invoice.InvoiceID;
+    }
+    return `/${HISTORY_ENDPOINTS[entity]}/${recordId}/History`;
+  }
+
+  private async putHistoryNote(path: string, details: string, tenantId?: string): Promise<HistoryRecord> {
+    const response = await this.request<HistoryRecordsResponse>(
+      "PUT",
+      path,
+      { HistoryRecords: [{ Details: details }] },
+      undefined,
+      { tenantId }
+    );
+    return response.HistoryRecords?.[0] || { Details: details };
+  }
+
+  /**
+   * Retrieves the history (changes and notes) of a record, oldest first as Xero returns it.
+   *
+   * @param entity - Record type (invoice, contact, creditnote, payment, banktransaction, quote, repeatinginvoice)
+   * @param id - Record ID (GUID); invoices also accept the invoice number
+   * @param tenantId - Override tenant ID
+   * @returns History records
+   */
+  async getHistory(entity: HistoryEntity, id: string, tenantId?: string): Promise<HistoryRecord[]> {
+    const response = await this.request<HistoryRecordsResponse>(
+      "GET",
+      await this.historyPath(entity, id, tenantId),
+      undefined,
+      undefined,
+      { tenantId }
+    );
+    return response.HistoryRecords || [];
+  }
+
+  /**
+   * Adds a note to a record's history.
+   *
+   * @param entity - Record type (see getHistory)
+   * @param id - Record ID (GUID); invoices also accept the invoice number
+   * @param note - Note text (at most 2500 characters)
+   * @param tenantId - Override tenant ID
+   * @returns The history record created
+   * @throws XeroPreflightError if the note is empty or too long
+   */
+  async addNote(entity: HistoryEntity, id: string, note: string, tenantId?: string): Promise<HistoryRecord> {
+    const details = note.trim();
+    if (!details || details.length > MAX_NOTE_LENGTH) {
+      throw new XeroPreflightError(`Notes must be 1-${MAX_NOTE_LENGTH} characters`, [
+        `Note is ${details.length} characters`,
+      ]);
+    }
+    return this.putHistoryNote(await this.historyPath(entity, id, tenantId), details, tenantId);
+  }
+
+  // ============================================
+  // PDF OPERATIONS
+  // ============================================
+
+  /**
+   * Downloads the PDF rendering of an invoice, quote, credit note or purchase order.
+   *
+   * Invoices and purchase orders can be fetched by number directly; quote and
+   * credit note numbers are looked up first.
+   *
+   * @param type - Document type
+   * @param id - Document ID (GUID) or number (e.g. "INV-0042")
+   * @param tenantId - Override tenant ID
+   * @returns PDF bytes
+   */
+  async getPdf(type: PdfDocumentType, id: string, tenantId?: string): Promise<Buffer> {
+    let documentId = id.trim();
+
+    if (!GUID_PATTERN.test(documentId)) {
+      if (type === "quote") {
+        const [quote] = await this.listQuotes({ where: whereEquals("QuoteNumber", documentId), tenantId });
+        if (!quote) {
+          throw new XeroPreflightError(`Quote ${documentId} not found`, []);
+        }
+        documentId = quote.QuoteID;
+      } else if (type === "creditnote") {
+        const [creditNote] = await this.listCreditNotes({
+          where: whereEquals("CreditNoteNumber", documentId),
+          tenantId,
+        });
+        if (!creditNote) {
+          throw new XeroPreflightError(`Credit note ${documentId} not found`, []);
+        }
+        documentId = creditNote.CreditNoteID;
+      }
+    }
+
+    return this.request<Buffer>(
+      "GET",
+      `/${PDF_ENDPOINTS[type]}/${encodeURIComponent(documentId)}`,
+      undefined,
+      undefined,
+      { tenantId, accept: "application/pdf" }
+    );
+  }
+
   // ============================================
   // ORGANISATION OPERATIONS
   // ============================================
@@ -1005,15 +3379,16 @@ export class XeroClient {
    * @cached TTL: 1 day
    */
   async getOrganisation(tenantId?: string): Promise<Organisation | null> {
+    const resolvedTenantId = await this.getTenantId(tenantId);
     return cache.getOrFetch(
-      "organisation",
+      createCacheKey("organisation", { tenantId: resolvedTenantId }),
       async () => {
         const response = await this.request<OrganisationResponse>(
           "GET",
           "/Organisation",
           undefined,
           undefined,
-          { tenantId }
+          { tenantId: resolvedTenantId }
         );
         return response.Organisations?.[0] || null;
       },
@@ -1159,6 +3534,57 @@ export class XeroClient {
     return response.Reports?.[0] || null;
   }
 
+  /**
+   * Builds a customer statement: every sales invoice, payment, credit note,
+   * overpayment and prepayment of the contact as a dated ledger with
+   * opening and running balances, plus ageing at the end date.
+   *
+   * @param contactId - Xero contact ID (GUID)
+   * @param options.fromDate - First day of the ledger (YYYY-MM-DD)
+   * @param options.toDate - Last day of the ledger (YYYY-MM-DD)
+   * @param options.currencyCode - Currency to report; required if the contact has documents in several
+   * @param options.tenantId - Override tenant ID
+   * @returns Statement with lines, balances and ageing buckets
+   * @throws XeroPreflightError if the contact does not exist or uses several currencies
+   */
+  async getContactStatement(
+    contactId: string,
+    options: { fromDate: string; toDate: string; currencyCode?: string; tenantId?: string }
+  ): Promise<ContactStatement> {
+    const { fromDate, toDate, tenantId } = options;
+    if (![fromDate, toDate].every((date) => /^\d{4}-\d{2}-\d{2}$/.test(date)) || fromDate > toDate) {
+      throw new XeroPreflightError(`Statement period ${fromDate} to ${toDate} is not valid`, [
+        "Dates must be YYYY-MM-DD, with the start date on or before the end date",
+      ]);
+    }
+    const contact = await this.existingContact(contactId, tenantId);
+    const ofContact = `Contact.ContactID==Guid("${contact.ContactID}")`;
+    const [invoices, creditNotes, payments, overpayments, prepayments] = await Promise.all([
+      this.listInvoices({ where: `${ofContact} AND Type=="ACCREC"`, all: true, tenantId }),
+      this.listCreditNotes({ where: `${ofContact} AND Type=="ACCRECCREDIT"`, all: true, tenantId }),
+      this.listPayments({ where: `Invoice.${ofContact}`, all: true, tenantId }),
+      this.listOverpayments({ where: `${ofContact} AND Type=="RECEIVE-OVERPAYMENT"`, all: true, tenantId }),
+      this.listPrepayments({ where: `${ofContact} AND Type=="RECEIVE-PREPAYMENT"`, all: true, tenantId }),
+    ]);
+    const sources = { invoices, creditNotes, payments, overpayments, prepayments };
+
+    const currencies = statementCurrencies(sources);
+    const currencyCode = options.currencyCode?.toUpperCase();
+    if (!currencyCode && currencies.length > 1) {
+      throw new XeroPreflightError(
+        `${contact.Name} has documents in ${currencies.length} currencies; choose one with --currency`,
+        currencies
+      );
+    }
+
+    // The sender's name is only a heading; the statement stands without it
+    const organisation = await this.getOrganisation(tenantId).catch(() => null);
+    return {
+      organisation: organisation?.Name,
+      ...buildStatement(contact, sources, { fromDate, toDate, currencyCode }),
+    };
+  }
+
   // ============================================
   // QUOTE OPERATIONS
   // ============================================
@@ -1170,21 +3596,30 @@ export class XeroClient {
    * @returns Array of quote objects
    */
   async listQuotes(options?: ListOptions & { tenantId?: string }): Promise<Quote[]> {
-    const queryParams: Record<string, string> = {};
-    if (options?.page) queryParams.page = options.page.toString();
-    if (options?.where) queryParams.where = options.where;
-    if (options?.order) queryParams.order = options.order;
+    if (options?.all || options?.limit) {
+      return collect(this.iterateQuotes(options));
+    }
 
     const response = await this.request<QuotesResponse>(
       "GET",
       "/Quotes",
       undefined,
-      queryParams,
-      { tenantId: options?.tenantId }
+      this.buildListParams(options),
+      this.listRequestOptions(options)
     );
     return response.Quotes || [];
   }
 
+  /**
+   * Iterates quotes across all pages, fetching one page at a time.
+   *
+   * @param options - Filter options; page sets the starting page, limit caps the total
+   * @returns Async iterator of quote objects
+   */
+  async *iterateQuotes(options?: ListOptions & { tenantId?: string }): AsyncGenerator<Quote> {
+    yield* this.paginate((page) => this.listQuotes(this.pageOptions(options, page)), options);
+  }
+
   /**
    * Retrieves a single quote by ID.
    *
@@ -1214,21 +3649,30 @@ export class XeroClient {
    * @returns Array of overpayment objects
    */
   async listOverpayments(options?: ListOptions & { tenantId?: string }): Promise<Overpayment[]> {
-    const queryParams: Record<string, string> = {};
-    if (options?.page) queryParams.page = options.page.toString();
-    if (options?.where) queryParams.where = options.where;
-    if (options?.order) queryParams.order = options.order;
+    if (options?.all || options?.limit) {
+      return collect(this.iterateOverpayments(options));
+    }
 
     const response = await this.request<OverpaymentsResponse>(
       "GET",
       "/Overpayments",
       undefined,
-      queryParams,
-      { tenantId: options?.tenantId }
+      this.buildListParams(options),
+      this.listRequestOptions(options)
     );
     return response.Overpayments || [];
   }
 
+  /**
+   * Iterates overpayments across all pages, fetching one page at a time.
+   *
+   * @param options - Filter options; page sets the starting page, limit caps the total
+   * @returns Async iterator of overpayment objects
+   */
+  async *iterateOverpayments(options?: ListOptions & { tenantId?: string }): AsyncGenerator<Overpayment> {
+    yield* this.paginate((page) => this.listOverpayments(this.pageOptions(options, page)), options);
+  }
+
   /**
    * Lists prepayments.
    *
@@ -1236,21 +3680,30 @@ export class XeroClient {
    * @returns Array of prepayment objects
    */
   async listPrepayments(options?: ListOptions & { tenantId?: string }): Promise<Prepayment[]> {
-    const queryParams: Record<string, string> = {};
-    if (options?.page) queryParams.page = options.page.toString();
-    if (options?.where) queryParams.where = options.where;
-    if (options?.order) queryParams.order = options.order;
+    if (options?.all || options?.limit) {
+      return collect(this.iteratePrepayments(options));
+    }
 
     const response = await this.request<PrepaymentsResponse>(
       "GET",
       "/Prepayments",
       undefined,
-      queryParams,
-      { tenantId: options?.tenantId }
+      this.buildListParams(options),
+      this.listRequestOptions(options)
     );
     return response.Prepayments || [];
   }
 
+  /**
+   * Iterates prepayments across all pages, fetching one page at a time.
+   *
+   * @param options - Filter options; page sets the starting page, limit caps the total
+   * @returns Async iterator of prepayment objects
+   */
+  async *iteratePrepayments(options?: ListOptions & { tenantId?: string }): AsyncGenerator<Prepayment> {
+    yield* this.paginate((page) => this.listPrepayments(this.pageOptions(options, page)), options);
+  }
+
   // ============================================
   // CONTACT GROUP OPERATIONS
   // ============================================
@@ -1272,6 +3725,292 @@ export class XeroClient {
     return response.ContactGroups || [];
   }
 
+  /**
+   * Retrieves a contact group with its members.
+   *
+   * @param group - ContactGroupID or group name (case-insensitive)
+   * @param tenantId - Override tenant ID
+   * @returns Contact group including Contacts
+   * @throws XeroPreflightError if no active group has that ID or name
+   */
+  async getContactGroup(group: string, tenantId?: string): Promise<ContactGroup> {
+    const value = group.trim();
+    let groupId = GUID_PATTERN.test(value) ? value : undefined;
+    if (!groupId) {
+      const groups = (await this.listContactGroups(tenantId)).filter((g) => g.Status !== "DELETED");
+      groupId = groups.find((g) => g.Name?.toLowerCase() === value.toLowerCase())?.ContactGroupID;
+      if (!groupId) {
+        throw new XeroPreflightError(
+          `No contact group named "${value}"`,
+          groups.map((g) => `${g.Name} (${g.ContactGroupID})`)
+        );
+      }
+    }
+
+    try {
+      const response = await this.request<ContactGroupsResponse>(
+        "GET",
+        `/ContactGroups/${groupId}`,
+        undefined,
+        undefined,
+        { tenantId }
+      );
+      if (response.ContactGroups?.[0]) {
+        return response.ContactGroups[0];
+      }
+    } catch (error) {
+      if (!(error instanceof XeroNotFoundError)) {
+        throw error;
+      }
+    }
+    throw new XeroPreflightError(`Contact group ${groupId} not found`, []);
+  }
+
+  /**
+   * Creates a contact group.
+   *
+   * @param options.name - Group name (must not match an active group)
+   * @param options.tenantId - Override tenant ID
+   * @returns Created contact group
+   * @throws XeroPreflightError if an active group already has the name
+   */
+  async createContactGroup(options: { name: string; tenantId?: string }): Promise<ContactGroup> {
+    const name = options.name.trim();
+    const existing = (await this.listContactGroups(options.tenantId)).find(
+      (g) => g.Status !== "DELETED" && g.Name?.toLowerCase() === name.toLowerCase()
+    );
+    if (existing) {
+      throw new XeroPreflightError(`Contact group "${existing.Name}" already exists`, [
+        `${existing.Name} (${existing.ContactGroupID})`,
+      ]);
+    }
+
+    const response = await this.request<ContactGroupsResponse>(
+      "PUT",
+      "/ContactGroups",
+      { ContactGroups: [{ Name: name }] },
+      undefined,
+      { tenantId: options.tenantId }
+    );
+    if (!response.ContactGroups?.[0]) {
+      throw new Error("Failed to create contact group - no group returned");
+    }
+    return response.ContactGroups[0];
+  }
+
+  /**
+   * Adds contacts to a group. Contacts that are already members are skipped.
+   *
+   * @param group - ContactGroupID or group name
+   * @param options.contactIds - Contacts to add
+   * @param options.where - Also add every contact matching this Xero filter
+   * @param options.tenantId - Override tenant ID
+   * @returns Contacts added and skipped
+   * @throws XeroPreflightError if the group or any contact ID does not exist
+   *
+   * @invalidates contacts/*
+   */
+  async addToContactGroup(
+    group: string,
+    options: { contactIds?: string[]; where?: string; tenantId?: string }
+  ): Promise<ContactGroupMembershipResult> {
+    const target = await this.getContactGroup(group, options.tenantId);
+    const contacts = await this.selectContacts(options);
+    const members = new Set((target.Contacts || []).map((c) => c.ContactID.toLowerCase()));
+    const toAdd = contacts.filter((c) => !members.has(c.ContactID.toLowerCase()));
+
+    for (let i = 0; i < toAdd.length; i += CONTACT_GROUP_BATCH_SIZE) {
+      await this.request(
+        "PUT",
+        `/ContactGroups/${target.ContactGroupID}/Contacts`,
+        { Contacts: toAdd.slice(i, i + CONTACT_GROUP_BATCH_SIZE).map((c) => ({ ContactID: c.ContactID })) },
+        undefined,
+        { tenantId: options.tenantId }
+      );
+    }
+    if (toAdd.length > 0) {
+      cache.invalidatePattern(/^contacts/);
+    }
+
+    return membershipResult(target, toAdd, contacts.filter((c) => members.has(c.ContactID.toLowerCase())));
+  }
+
+  /**
+   * Removes contacts from a group. Contacts that are not members are skipped.
+   *
+   * Xero removes one contact per request.
+   *
+   * @param group - ContactGroupID or group name
+   * @param options.contactIds - Contacts to remove
+   * @param options.where - Also remove every contact matching this Xero filter
+   * @param options.tenantId - Override tenant ID
+   * @returns Contacts removed and skipped
+   * @throws XeroPreflightError if the group or any contact ID does not exist
+   *
+   * @invalidates contacts/*
+   */
+  async removeFromContactGroup(
+    group: string,
+    options: { contactIds?: string[]; where?: string; tenantId?: string }
+  ): Promise<ContactGroupMembershipResult> {
+    const target = await this.getContactGroup(group, options.tenantId);
+    const contacts = await this.selectContacts(options);
+    const members = new Set((target.Contacts || []).map((c) => c.ContactID.toLowerCase()));
+    const toRemove = contacts.filter((c) => members.has(c.ContactID.toLowerCase()));
+
+    for (const contact of toRemove) {
+      await this.request(
+        "DELETE",
+        `/ContactGroups/${target.ContactGroupID}/Contacts/${contact.ContactID}`,
+        undefined,
+        undefined,
+        { tenantId: options.tenantId }
+      );
+    }
+    if (toRemove.length > 0) {
+      cache.invalidatePattern(/^contacts/);
+    }
+
+    return membershipResult(target, toRemove, contacts.filter((c) => !members.has(c.ContactID.toLowerCase())));
+  }
+
+  /**
+   * Contacts given by ID and/or matching a where filter, without duplicates.
+   * IDs are GUIDs, so they match whatever their case.
+   */
+  private async selectContacts(options: {
+    contactIds?: string[];
+    where?: string;
+    tenantId?: string;
+  }): Promise<Contact[]> {
+    const ids = [...new Set((options.contactIds || []).map((id) => id.toLowerCase()))];
+    if (ids.length === 0 && !options.where) {
+      throw new XeroPreflightError("No contacts given - pass contact IDs or a where filter", []);
+    }
+
+    const selected = new Map<string, Contact>();
+    for (let i = 0; i < ids.length; i += CONTACT_GROUP_LOOKUP_SIZE) {
+      const response = await this.request<ContactsResponse>(
+        "GET",
+        "/Contacts",
+        undefined,
+        { IDs: ids.slice(i, i + CONTACT_GROUP_LOOKUP_SIZE).join(",") },
+        { tenantId: options.tenantId }
+      );
+      for (const contact of response.Contacts || []) {
+        selected.set(contact.ContactID.toLowerCase(), contact);
+      }
+    }
+    const missing = ids.filter((id) => !selected.has(id));
+    if (missing.length > 0) {
+      throw new XeroPreflightError(`${missing.length} contact ID(s) not found`, missing);
+    }
+
+    if (options.where) {
+      for (const contact of await this.listContacts({ where: options.where, all: true, tenantId: options.tenantId })) {
+        selected.set(contact.ContactID.toLowerCase(), contact);
+      }
+    }
+    return [...selected.values()];
+  }
+
+  // ============================================
+  // SYNC OPERATIONS
+  // ============================================
+
+  /**
+   * Returns records changed since the last sync of an entity.
+   *
+   * Keeps a per-tenant, per-entity high-water mark (the latest UpdatedDateUTC
+   * seen) on disk and sends it as If-Modified-Since on the next run. The first
+   * run, or a run with reset, pulls everything. Records updated exactly at the
+   * mark may be returned again.
+   *
+   * @param entity - Entity to sync (e.g., "invoices")
+   * @param options.since - Override the stored mark for this run (ISO timestamp)
+   * @param options.reset - Ignore the stored mark and pull everything
+   * @param options.tenantId - Override tenant ID
+   * @returns Changed records with the previous and new high-water marks
+   *
+   * @example
+   * const { records } = await client.sync("invoices");
+   */
+  async sync(
+    entity: SyncEntity,
+    options?: { since?: string; reset?: boolean; tenantId?: string }
+  ): Promise<SyncResult> {
+    const tenantId = await this.getTenantId(options?.tenantId);
+    const state = this.loadSyncState();
+    const stored = options?.reset ? null : state[tenantId]?.[entity]?.highWaterMark || null;
+    const since = options?.since || stored;
+
+    const listOptions = { tenantId, modifiedSince: since || undefined };
+    const records: Array<{ UpdatedDateUTC?: string }> = [];
+    let highWaterMark = since ? parseXeroDate(since) : null;
+
+    for await (const record of this.syncIterator(entity, listOptions)) {
+      records.push(record);
+      const updated = parseXeroDate(record.UpdatedDateUTC);
+      if (updated && (!highWaterMark || updated > highWaterMark)) {
+        highWaterMark = updated;
+      }
+    }
+
+    const mark = highWaterMark ? highWaterMark.toISOString() : null;
+    if (mark) {
+      state[tenantId] = {
+        ...state[tenantId],
+        [entity]: { highWaterMark: mark, lastRunAt: new Date().toISOString() },
+      };
+      this.saveSyncState(state);
+    }
+
+    return { entity, tenantId, since, highWaterMark: mark, count: records.length, records };
+  }
+
+  private syncIterator(
+    entity: SyncEntity,
+    options: ListOptions & { tenantId?: string }
+  ): AsyncGenerator<{ UpdatedDateUTC?: string }> {
+    switch (entity) {
+      case "invoices":
+        return this.iterateInvoices(options);
+      case "contacts":
+        return this.iterateContacts(options);
+      case "payments":
+        return this.iteratePayments(options);
+      case "credit-notes":
+        return this.iterateCreditNotes(options);
+      case "bank-transactions":
+        return this.iterateBankTransactions(options);
+      case "quotes":
+        return this.iterateQuotes(options);
+      case "overpayments":
+        return this.iterateOverpayments(options);
+      case "prepayments":
+        return this.iteratePrepayments(options);
+    }
+  }
+
+  private loadSyncState(): SyncState {
+    try {
+      const path = join(this.stateDir, SYNC_STATE_FILE);
+      if (existsSync(path)) {
+        return JSON.parse(readFileSync(path, "utf-8"));
+      }
+    } catch {
+      // Corrupt state file - start over with a full pull
+    }
+    return {};
+  }
+
+  private saveSyncState(state: SyncState): void {
+    if (!existsSync(this.stateDir)) {
+      mkdirSync(this.stateDir, { recursive: true });
+    }
+    writeFileSync(join(this.stateDir, SYNC_STATE_FILE), JSON.stringify(state, null, 2), "utf-8");
+  }
+
   // ============================================
   // CACHE OPERATIONS
   // ============================================
@@ -1284,6 +4023,8 @@ export class XeroClient {
   clearCache(): number {
     this.clearTenantId();
     this.tenantId = null;
+    this.tenantChosen = false;
+    this.connections = null;
     return cache.clear();
   }
 }